@@ -1,51 +1,365 @@
-import { useEffect, useMemo, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
+import type { PointerEvent } from "react";
 import * as XLSX from "xlsx";
 
-import { auth, db, provider } from "./firebase";
-import { signInWithPopup, onAuthStateChanged, signOut } from "firebase/auth";
+import { auth, db, provider, staffReauthProvider } from "./firebase";
+import { signInWithPopup, onAuthStateChanged, signOut, reauthenticateWithPopup } from "firebase/auth";
 import type { User } from "firebase/auth";
 import {
   collection,
   doc,
   getDoc,
+  getDocFromCache,
+  getDocs,
   setDoc,
+  deleteDoc,
+  writeBatch,
+  increment,
+  arrayUnion,
   updateDoc,
   onSnapshot,
+  where,
   query,
   orderBy,
   serverTimestamp,
+  Timestamp,
+  waitForPendingWrites,
 } from "firebase/firestore";
+import type { DocumentData, WriteBatch } from "firebase/firestore";
 
-type Kid = { id: string; name: string; active: boolean };
+import {
+  ABSENCE_REASON_LABELS,
+  CLOSURE_KIND_LABELS,
+  DEFAULT_AGE_GROUPS,
+  DEFAULT_MEAL_TIMES,
+  MAX_SEGMENTS,
+  MEAL_KEYS,
+  WEEKDAY_LABELS,
+  addDays,
+  buildInvoices,
+  absenceStats,
+  buildRollups,
+  calcMeals,
+  closeOpenSegments,
+  closingTimeOn,
+  daysOfOperation,
+  headcount,
+  isClosedOn,
+  isIncomplete,
+  isValidDate,
+  isValidHHMM,
+  isValidTimeZone,
+  lastDayOfMonth,
+  expectedOn,
+  mealTimesForDate,
+  monthFromDate,
+  minutesPresent,
+  notArrived,
+  openSegment,
+  parseSegmentList,
+  peakAttendance,
+  periodsBetween,
+  periodsFromYearRates,
+  rateChangeRange,
+  ratePeriodFor,
+  reimbursementFor,
+  rollupDeltas,
+  rollupFrom,
+  round2,
+  segmentsOf,
+  shiftedRecordDate,
+  staffWeeks,
+  toMin,
+  validateAgeGroups,
+  validateClosure,
+  validateRatePeriods,
+  validateSchedule,
+  validateSegments,
+  withSegments,
+  yearEndStatements,
+  yearFromDate,
+  zonedDateTime,
+} from "./domain";
+import type {
+  Absence,
+  AbsenceReason,
+  AgeGroup,
+  LegacyYearRates,
+  MealKey,
+  MealOverride,
+  MealOverrideReason,
+  MealSchedule,
+  MealTimes,
+  MealWindow,
+  RatePeriod,
+  RatePeriodDraft,
+  BillingGroup,
+  ClosingTimeVersion,
+  Closure,
+  ClosureKind,
+  Invoice,
+  ExpectedSchedule,
+  Payment,
+  RecordRow,
+  RollupCounts,
+  Segment,
+  Signature,
+  StaffMember,
+  TimeRecord,
+  TuitionPlan,
+  TuitionVersion,
+  ScheduleVersion,
+  YearEndStatement,
+} from "./domain";
 
-type RecordRow = {
-  id: string; // `${date}_${kidId}`
-  date: string;
+type Guardian = {
+  name: string;
+  relationship: string; // "Mother", "Grandparent", …
+  phone: string;
+  email: string;
+  hasPin?: boolean; // kiosk PIN set; the hash lives in kioskPins, see KioskPins
+  // Hashes from before kioskPins, moved there the first time the PIN is used
+  pinHash?: string;
+  pinSalt?: string;
+};
+
+type Kid = {
+  id: string;
+  name: string;
+  active: boolean;
+
+  // profile (all optional; "" when unknown)
+  birthDate?: string; // YYYY-MM-DD
+  enrollStart?: string; // YYYY-MM-DD, first day check-ins are allowed
+  enrollEnd?: string; // YYYY-MM-DD inclusive, "" = still enrolled
+  guardians?: Guardian[];
+  allergies?: string[]; // short flags shown on the check-in card
+  dietaryNotes?: string;
+  notes?: string;
+
+  familyId?: string; // families/{id}; "" = not in a family
+  tuition?: TuitionPlan | null; // latest plan; null/missing = not billed
+  tuitionHistory?: TuitionVersion[]; // what billing prices each date with, once a plan has changed
+  schedule?: ExpectedSchedule; // usual week; missing/empty = no fixed schedule
+  scheduleHistory?: ScheduleVersion[]; // what each date is checked against, once the week has changed
+};
+
+// daycares/{daycareId}/kioskPins/{kidId}: the kiosk PIN keys (see pinKey())
+// of a child's guardians. Only staff and owners can read them; `pinKeys`
+// repeats the keys so the kiosk finds a PIN with one array-contains query.
+type KioskPins = {
+  kidId: string;
+  entries: { guardian: string; pinKey: string }[];
+  pinKeys: string[];
+};
+
+// daycares/{daycareId}/families/{id}: siblings who arrive and leave together.
+// Guardians stay on each child; a family's guardians are the union of them.
+type Family = {
+  id: string;
+  name: string;
+};
+
+// Profile editor state; allergies are edited as one comma-separated field
+// and a guardian's kiosk PIN only in plain text until it is hashed on save.
+// `pinOf` is the guardian's name when the editor opened, to find their
+// kioskPins entry after a rename.
+type KidProfileDraft = Omit<Kid, "allergies" | "guardians"> & {
+  allergiesText: string;
+  guardians: (Guardian & { pin?: string; pinOf?: string })[];
+};
+
+// What the kiosk adds to a check-in/out; the time comes from the write itself
+type KioskSignature = Omit<Signature, "kind" | "time">;
+
+// The parts of a record an edit can change; what history entries capture.
+type RecordSnapshot = Pick<
+  RecordRow,
+  | "inTime"
+  | "outTime"
+  | "segments"
+  | "breakfast"
+  | "amSnack"
+  | "lunch"
+  | "pmSnack"
+  | "mealOverrides"
+  | "source"
+> & {
+  // Who signed for each check-in/out; the images stay on the record itself,
+  // since a day's worth in every entry could outgrow a history document
+  signatures?: Omit<Signature, "image">[];
+};
+
+type HistoryAction =
+  | "check-in"
+  | "check-out"
+  | "clear"
+  | "manual-edit"
+  | "revert"
+  | "recalc"
+  | "reconcile"
+  | "resolve-conflict"
+  | "import"
+  | "move-date";
+
+// daycares/{daycareId}/records/{id}/history/{autoId} — append-only, never updated
+type HistoryEntry = {
+  id: string;
+  recordId: string;
+  action: HistoryAction;
+  before: RecordSnapshot | null; // null when the write created the record
+  after: RecordSnapshot;
+  by: string; // uid
+  byEmail: string;
+  deviceId: string;
+  reason: string;
+  clientAt: number; // ms since epoch, used for ordering
+  at?: unknown; // serverTimestamp()
+};
+
+// daycares/{daycareId}/conflicts/{autoId}: a record write as attempted. It is
+// queued on its own just before the record batch, which deletes it again, so
+// only a write the rules reject as stale leaves one behind to apply or discard.
+type ConflictCopy = HistoryEntry & {
   kidId: string;
-  kidName: string;
-
-  // We store "" (empty string) when cleared to avoid Firestore undefined/delete issues
-  inTime?: string; // "HH:MM" or ""
-  outTime?: string; // "HH:MM" or ""
-
-  breakfast: number;
-  amSnack: number;
-  lunch: number;
-  pmSnack: number;
-
-  // audit/metadata
-  source?: "auto" | "manual";
-  editedBy?: string;
-  editReason?: string; // "" allowed
-  updatedAt?: any;
+  date: string;
+  signatures?: Signature[];
+};
+
+// daycares/{daycareId}/timeRecords/{id}/history/{autoId} — append-only
+type TimeHistoryEntry = {
+  id: string;
+  recordId: string;
+  action: "clock-in" | "clock-out" | "manual-edit";
+  before: Segment[] | null; // null when the write created the record
+  after: Segment[];
+  by: string; // uid
+  byEmail: string;
+  reason: string;
+  clientAt: number;
+  at?: unknown;
+};
+
+// daycares/{daycareId}/timeConflicts/{autoId}: a time record write as
+// attempted, kept and cleared like ConflictCopy
+type TimeConflictCopy = TimeHistoryEntry & {
+  staffId: string;
+  date: string;
+};
+
+// Claim totals for one month, as shown in the monthly summary
+type MonthTotals = {
+  breakfasts: number;
+  snacks: number;
+  lunches: number;
+  total: number;
+  incompleteExcluded: number;
+};
+
+// daycares/{daycareId}/monthLocks/{YYYY-MM}: records in a locked month can't change
+type MonthLock = {
+  month: string;
+  locked: boolean;
+  submitted: MonthTotals; // totals when the month was last closed
+  logId: string; // the ./log entry written in the same batch
+  updatedBy: string; // uid
+  updatedAt?: unknown;
+};
+
+// daycares/{daycareId}/monthLocks/{month}/log/{autoId} — append-only
+type MonthLockLogEntry = {
+  id: string;
+  month: string;
+  action: "lock" | "unlock";
+  reason: string; // required to unlock
+  totals: MonthTotals; // at the time of the action
+  by: string; // uid
+  byEmail: string;
+  clientAt: number;
+  at?: unknown;
+};
+
+// Spreadsheet import: which source column feeds each RecordRow field
+type ImportField = "date" | "kidId" | "kidName" | "inTime" | "outTime";
+type ImportMapping = Record<ImportField, string>; // "" = not mapped
+
+type ImportPlan = {
+  rows: {
+    id: string; // `${date}_${kidId}`, or `${date}_new:${name}` for a child still to be created
+    date: string;
+    kidId: string; // "" when the child will be created
+    kidName: string;
+    segments: Segment[];
+    action: "insert" | "update";
+    sourceRows: number[]; // 1-based sheet row numbers
+  }[];
+  errors: { row: number; message: string }[];
+  newKids: string[]; // names that will be created
+};
+
+type Role = "owner" | "staff" | "bookkeeper";
+
+// daycares/{daycareId}
+type Daycare = {
+  id: string;
+  name: string;
+  ownerUid: string;
+  createdAt?: unknown;
+};
+
+// daycares/{daycareId}/members/{uid}
+type Member = {
+  uid: string;
+  email: string;
+  displayName: string;
+  role: Role;
+  addedAt?: unknown;
+};
+
+// invites/{email} (lower-case); claimed on the invitee's first sign-in
+type Invite = {
+  email: string;
+  daycareId: string;
+  role: Role;
+  invitedBy: string;
+  createdAt?: unknown;
+};
+
+// users/{uid}: which daycare this account belongs to
+type UserProfile = { daycareId: string };
+
+// daycares/{daycareId}/settings/config (the parent doc of the settings subcollections)
+type ProviderSettings = {
+  closingTime: string; // "HH:MM", used by end-of-day reconciliation
+  closingTimes?: ClosingTimeVersion[]; // earlier closing times, for late fees in past months
+  openWeekdays: number[]; // 0 = Sunday; with closures, gives days of operation
+  timeZone: string; // IANA name; "today" and check-in times are taken in this zone
+  latePickupGraceMin: number; // minutes after closing before late fees start
+  latePickupFeePerMin: number; // dollars, 0 = no late fees
+  providerName: string; // printed on year-end statements
+  providerAddress: string;
+  providerTaxId: string; // EIN or SSN parents claim the credit against
+  licensedCapacity: number; // children on site at once, 0 = not set
+  arrivalGraceMin: number; // minutes past expected arrival before "not arrived"
+  ageGroups: AgeGroup[]; // licensing ratio table, youngest first
+  overtimeHoursPerWeek: number; // staff hours past this in a Monday-starting week
 };
 
-type ReimbursementRates = {
-  year: number;
-  breakfast: number; // dollars
-  snack: number; // dollars (used for amSnack + pmSnack)
-  lunch: number; // dollars
-  updatedAt?: any;
+const BROWSER_TIME_ZONE = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+const DEFAULT_SETTINGS: ProviderSettings = {
+  closingTime: "18:00",
+  openWeekdays: [1, 2, 3, 4, 5],
+  timeZone: BROWSER_TIME_ZONE,
+  latePickupGraceMin: 5,
+  latePickupFeePerMin: 0,
+  providerName: "",
+  providerAddress: "",
+  providerTaxId: "",
+  licensedCapacity: 0,
+  arrivalGraceMin: 30,
+  ageGroups: DEFAULT_AGE_GROUPS,
+  overtimeHoursPerWeek: 40,
 };
 
 const COLORS = {
@@ -65,60 +379,509 @@ const COLORS = {
   infoText: "#0369a1",
 };
 
-const MEALS = {
-  breakfast: { start: "09:00", end: "09:30" },
-  amSnack: "11:00",
-  lunch: "13:00",
-  pmSnack: "15:00",
+const MEAL_LABELS: Record<MealKey, string> = {
+  breakfast: "Breakfast",
+  amSnack: "AM Snack",
+  lunch: "Lunch",
+  pmSnack: "PM Snack",
+};
+
+const MEAL_OVERRIDE_REASONS: Record<MealOverrideReason, string> = {
+  refused: "Child refused meal",
+  "food-from-home": "Brought food from home",
+  "not-creditable": "Meal not creditable",
+  "left-before-serving": "Left before serving",
+  "served-outside-window": "Served outside schedule window",
+  other: "Other",
 };
 
-const today = () => new Date().toISOString().slice(0, 10);
+const TIME_ZONES = Intl.supportedValuesOf("timeZone");
 
-const toMin = (t?: string) =>
-  t ? Number(t.slice(0, 2)) * 60 + Number(t.slice(3, 5)) : null;
+const TUITION_KIND_LABELS: Record<TuitionPlan["kind"], string> = {
+  weekly: "Weekly flat",
+  daily: "Per day attended",
+  hourly: "Hourly (from in/out times)",
+};
 
-function isValidHHMM(t: string) {
-  if (!/^\d{2}:\d{2}$/.test(t)) return false;
-  const m = toMin(t);
-  return m !== null && m >= 0 && m < 24 * 60;
-}
+// Provider-local date and "HH:MM" right now
+const today = (timeZone: string) => zonedDateTime(timeZone, new Date()).date;
+const nowHHMM = (timeZone: string) => zonedDateTime(timeZone, new Date()).time;
 
 // Firestore does NOT allow `undefined`. Remove undefined keys before setDoc.
-function stripUndefined<T extends Record<string, any>>(obj: T): Partial<T> {
-  const out: any = {};
-  for (const [k, v] of Object.entries(obj)) {
-    if (v !== undefined) out[k] = v;
-  }
-  return out;
+function stripUndefined<T extends object>(obj: T): Partial<T> {
+  return Object.fromEntries(Object.entries(obj).filter(([, v]) => v !== undefined)) as Partial<T>;
+}
+
+function snapshotOf(r: RecordRow): RecordSnapshot {
+  return {
+    inTime: r.inTime ?? "",
+    outTime: r.outTime ?? "",
+    segments: segmentsOf(r),
+    breakfast: r.breakfast || 0,
+    amSnack: r.amSnack || 0,
+    lunch: r.lunch || 0,
+    pmSnack: r.pmSnack || 0,
+    mealOverrides: r.mealOverrides ?? {},
+    source: r.source ?? "auto",
+    signatures: (r.signatures ?? []).map((s) => ({
+      kind: s.kind,
+      time: s.time,
+      guardian: s.guardian,
+      signedAt: s.signedAt,
+    })),
+  };
+}
+
+// What putting a snapshot back changes on a record (revert, applying a kept copy)
+const snapshotPatch = (s: RecordSnapshot): Partial<RecordRow> => ({
+  segments: s.segments ?? [],
+  inTime: s.inTime ?? "",
+  outTime: s.outTime ?? "",
+  breakfast: s.breakfast,
+  amSnack: s.amSnack,
+  lunch: s.lunch,
+  pmSnack: s.pmSnack,
+  mealOverrides: s.mealOverrides ?? {},
+});
+
+const formatOverrides = (o?: RecordRow["mealOverrides"]) =>
+  MEAL_KEYS.filter((m) => o?.[m])
+    .map((m) => `${MEAL_LABELS[m]}: ${o![m]!.status} (${MEAL_OVERRIDE_REASONS[o![m]!.reason]})`)
+    .join("; ");
+
+const money = (n: number) => `${n < 0 ? "-" : ""}$${Math.abs(n).toFixed(2)}`;
+
+const escapeHtml = (v: string) =>
+  v.replace(/[&<>"']/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[c]!);
+
+// Stand-alone page for one invoice; the browser's print dialog saves it as PDF
+function invoiceHtml(inv: Invoice) {
+  const row = (cells: string[], bold = false) =>
+    `<tr>${cells.map((c, i) => `<td style="padding:4px 8px;${i ? "text-align:right;" : ""}${bold ? "font-weight:700;" : ""}">${c}</td>`).join("")}</tr>`;
+
+  return `<!doctype html>
+<html><head><meta charset="utf-8"><title>Invoice ${escapeHtml(inv.familyName)} ${inv.month}</title></head>
+<body style="font-family:sans-serif;color:#0f172a;max-width:720px;margin:24px auto">
+<h2 style="margin-bottom:4px">Invoice</h2>
+<div>${escapeHtml(inv.familyName)} &middot; ${inv.month}</div>
+<table style="border-collapse:collapse;width:100%;margin-top:16px">
+<tr><th style="text-align:left;padding:4px 8px">Item</th><th style="text-align:right;padding:4px 8px">Qty</th><th style="text-align:right;padding:4px 8px">Price</th><th style="text-align:right;padding:4px 8px">Amount</th></tr>
+${inv.lines.map((l) => row([escapeHtml(l.description), String(l.quantity), money(l.unitPrice), money(l.amount)])).join("\n")}
+${row(["Charges this month", "", "", money(inv.charges)], true)}
+</table>
+<table style="border-collapse:collapse;width:100%;margin-top:16px">
+${row(["Previous balance", money(inv.previousBalance)])}
+${row(["Charges", money(inv.charges)])}
+${inv.payments.map((p) => row([escapeHtml(`Payment ${p.date}${p.method ? ` (${p.method})` : ""}`), money(-p.amount)])).join("\n")}
+${row(["Balance due", money(inv.balance)], true)}
+</table>
+${inv.incompleteExcluded ? `<p style="color:#64748b;font-size:12px">${inv.incompleteExcluded} day(s) without a check-out are not billed yet.</p>` : ""}
+</body></html>`;
+}
+
+// Year-end childcare expense statement (dependent-care tax credit); page-breaks
+// between statements so a whole batch prints from one window
+function statementHtml(statements: YearEndStatement[], settings: ProviderSettings) {
+  const provider = [settings.providerName, ...settings.providerAddress.split("\n")]
+    .filter((l) => l.trim())
+    .map(escapeHtml)
+    .join("<br>");
+  const row = (cells: string[], bold = false) =>
+    `<tr>${cells.map((c, i) => `<td style="padding:4px 8px;${i ? "text-align:right;" : ""}${bold ? "font-weight:700;" : ""}">${c}</td>`).join("")}</tr>`;
+
+  const pages = statements.map(
+    (st) => `<section style="page-break-after:always">
+<h2 style="margin-bottom:4px">Childcare Expense Statement ${st.year}</h2>
+<div>${provider || "(provider name not set)"}</div>
+<div>Tax ID: ${escapeHtml(settings.providerTaxId) || "(not set)"}</div>
+<p style="margin-top:16px">Paid by: <b>${escapeHtml(st.familyName)}</b></p>
+<table style="border-collapse:collapse;width:100%">
+<tr><th style="text-align:left;padding:4px 8px">Date received</th><th style="text-align:right;padding:4px 8px">Amount</th></tr>
+${st.payments.map((p) => row([escapeHtml(`${p.date}${p.method ? ` (${p.method})` : ""}`), money(p.amount)])).join("\n")}
+${row([`Total paid in ${st.year}`, money(st.totalPaid)], true)}
+</table>
+${st.children
+  .map(
+    (c) => `<h4 style="margin:16px 0 4px">${escapeHtml(c.name)}: ${c.dates.length} day(s) attended</h4>
+<div style="font-size:12px;color:#64748b">${c.dates.join(", ") || "No attendance recorded."}</div>`
+  )
+  .join("\n")}
+</section>`
+  );
+
+  return `<!doctype html>
+<html><head><meta charset="utf-8"><title>Statements ${statements[0]?.year ?? ""}</title></head>
+<body style="font-family:sans-serif;color:#0f172a;max-width:720px;margin:24px auto">
+${pages.join("\n")}
+</body></html>`;
+}
+
+// "in 08:02 by Jane Doe, out 17:31 by Jane Doe"; the images stay in Firestore
+const formatSignatures = (sigs?: Omit<Signature, "image">[]) =>
+  (sigs ?? []).map((s) => `${s.kind} ${s.time} by ${s.guardian}`).join(", ");
+
+const formatSegments = (segs?: Segment[]) =>
+  segs && segs.length ? segs.map((s) => `${s.in}–${s.out || "…"}`).join(", ") : "(none)";
+
+// Field-level differences between two snapshots, formatted for display
+function diffSnapshots(before: RecordSnapshot | null, after: RecordSnapshot) {
+  const fmt = (k: keyof RecordSnapshot, snap: RecordSnapshot | null) => {
+    if (!snap) return "—";
+    if (k === "segments") return formatSegments(snap.segments);
+    if (k === "mealOverrides") return formatOverrides(snap.mealOverrides) || "—";
+    if (k === "signatures") return formatSignatures(snap.signatures) || "—";
+    const v = snap[k];
+    return v === undefined || v === "" ? "—" : String(v);
+  };
+
+  const keys: (keyof RecordSnapshot)[] = ["segments", ...MEAL_KEYS, "mealOverrides", "source", "signatures"];
+  return keys
+    .map((k) => ({ field: k, from: fmt(k, before), to: fmt(k, after) }))
+    .filter((d) => d.from !== d.to);
+}
+
+function historyEntry(
+  by: User | null,
+  recordId: string,
+  action: HistoryAction,
+  before: RecordSnapshot | null,
+  after: RecordRow,
+  reason: string
+): Omit<HistoryEntry, "id"> {
+  return {
+    recordId,
+    action,
+    before,
+    after: snapshotOf(after),
+    by: by?.uid ?? "",
+    byEmail: by?.email ?? "",
+    deviceId: DEVICE_ID,
+    reason,
+    clientAt: Date.now(),
+    at: serverTimestamp(),
+  };
 }
 
-function calcMeals(r: RecordRow) {
-  const i = toMin(r.inTime); // if inTime is "" => toMin("") returns null
-  const o = toMin(r.outTime) ?? 24 * 60;
+function timeHistoryEntry(
+  by: User,
+  recordId: string,
+  action: TimeHistoryEntry["action"],
+  before: Segment[] | null,
+  after: Segment[],
+  reason: string
+): Omit<TimeHistoryEntry, "id"> {
+  return {
+    recordId,
+    action,
+    before,
+    after,
+    by: by.uid,
+    byEmail: by.email ?? "",
+    reason,
+    clientAt: Date.now(),
+    at: serverTimestamp(),
+  };
+}
 
-  // If no valid inTime, do NOT auto-calc (return as-is)
-  if (i == null) return r;
+function lockLogEntry(
+  by: User,
+  month: string,
+  action: MonthLockLogEntry["action"],
+  reason: string,
+  totals: MonthTotals
+): Omit<MonthLockLogEntry, "id"> {
+  return {
+    month,
+    action,
+    reason,
+    totals,
+    by: by.uid,
+    byEmail: by.email ?? "",
+    clientAt: Date.now(),
+    at: serverTimestamp(),
+  };
+}
 
-  const bS = toMin(MEALS.breakfast.start)!;
-  const bE = toMin(MEALS.breakfast.end)!;
+// Why `kid` can't attend on `date`, or null when the date is inside enrollment
+function enrollmentProblem(kid: Kid, date: string): string | null {
+  if (kid.enrollStart && date < kid.enrollStart) {
+    return `${kid.name} is not enrolled until ${kid.enrollStart}.`;
+  }
+  if (kid.enrollEnd && date > kid.enrollEnd) {
+    return `${kid.name}'s enrollment ended on ${kid.enrollEnd}.`;
+  }
+  return null;
+}
 
-  const at = (t: string) => {
-    const m = toMin(t)!;
-    return i <= m && o >= m;
+function emptyRecord(date: string, kid: Kid): RecordRow {
+  return {
+    id: `${date}_${kid.id}`,
+    date,
+    kidId: kid.id,
+    kidName: kid.name,
+    inTime: "",
+    outTime: "",
+    breakfast: 0,
+    amSnack: 0,
+    lunch: 0,
+    pmSnack: 0,
+    source: "auto",
+    editReason: "",
   };
+}
+
+const toHex = (bytes: ArrayBuffer | Uint8Array) =>
+  Array.from(new Uint8Array(bytes), (b) => b.toString(16).padStart(2, "0")).join("");
+
+// Kiosk PINs are stored as PBKDF2 hashes, never in plain text, in kioskPins
+// where only staff and owners can read them. A 4–6 digit PIN has at most a
+// million values, so the iteration count makes guessing slow and the kiosk
+// throttles failed attempts (see kioskLockedFor()).
+const PIN_ITERATIONS = 100_000;
+
+async function hashPin(pin: string, salt: string) {
+  const key = await crypto.subtle.importKey("raw", new TextEncoder().encode(pin), "PBKDF2", false, ["deriveBits"]);
+  const bits = await crypto.subtle.deriveBits(
+    { name: "PBKDF2", hash: "SHA-256", salt: new TextEncoder().encode(salt), iterations: PIN_ITERATIONS },
+    key,
+    256
+  );
+  return toHex(bits);
+}
+
+// One key per PIN and daycare, so a PIN is found (or found taken) with one
+// hash and one query instead of one hash per guardian
+const pinKey = (daycareId: string, pin: string) => hashPin(pin, `kiosk:${daycareId}`);
+
+// A hash still on the kid doc, salted per guardian
+async function legacyPinMatches(g: Guardian, pin: string) {
+  return !!g.pinHash && !!g.pinSalt && (await hashPin(pin, g.pinSalt)) === g.pinHash;
+}
+
+// Failed kiosk PINs in a row, kept across reloads. After KIOSK_FREE_TRIES the
+// kiosk refuses PINs for a minute, doubling with every further miss up to an hour.
+const KIOSK_FAILS_KEY = "daycare-kiosk-fails";
+const KIOSK_FREE_TRIES = 5;
+
+type KioskFails = { count: number; until: number }; // until: ms since epoch
+
+function kioskFails(): KioskFails {
+  try {
+    const saved = JSON.parse(localStorage.getItem(KIOSK_FAILS_KEY) ?? "");
+    return { count: Number(saved.count) || 0, until: Number(saved.until) || 0 };
+  } catch {
+    return { count: 0, until: 0 };
+  }
+}
+
+// Minutes until the kiosk takes PINs again; 0 when it does now
+function kioskLockedFor() {
+  return Math.max(0, Math.ceil((kioskFails().until - Date.now()) / 60_000));
+}
 
+function recordKioskFail() {
+  const count = kioskFails().count + 1;
+  const minutes = count < KIOSK_FREE_TRIES ? 0 : Math.min(60, 2 ** (count - KIOSK_FREE_TRIES));
+  localStorage.setItem(KIOSK_FAILS_KEY, JSON.stringify({ count, until: Date.now() + minutes * 60_000 }));
+}
+
+const clearKioskFails = () => localStorage.removeItem(KIOSK_FAILS_KEY);
+
+// Stable per-browser id so history can tell devices apart
+const DEVICE_ID = (() => {
+  const key = "daycare-device-id";
+  let id = localStorage.getItem(key);
+  if (!id) {
+    id = crypto.randomUUID();
+    localStorage.setItem(key, id);
+  }
+  return id;
+})();
+
+const ROLE_LABELS: Record<Role, string> = {
+  owner: "Owner",
+  staff: "Staff",
+  bookkeeper: "Bookkeeper (read-only)",
+};
+
+// What each role may do. Staff run the day; only owners change the past,
+// the settings, the roster or the team. Bookkeepers only read and export.
+function permissionsFor(role: Role | null) {
+  const owner = role === "owner";
+  const staff = owner || role === "staff";
   return {
-    ...r,
-    breakfast: i <= bE && o >= bS ? 1 : 0,
-    amSnack: at(MEALS.amSnack) ? 1 : 0,
-    lunch: at(MEALS.lunch) ? 1 : 0,
-    pmSnack: at(MEALS.pmSnack) ? 1 : 0,
+    checkInOut: staff,
+    editToday: staff,
+    editPast: owner,
+    editProfiles: staff,
+    manageKids: owner, // deactivate, reactivate, rename, delete
+    editSettings: owner, // rates, meal schedule, closing time
+    importData: owner,
+    manageStaff: owner,
+    viewBilling: owner || role === "bookkeeper",
+    manageBilling: owner, // tuition plans, payments, late fees
   };
 }
 
-const yearFromDate = (d: string) => Number(d.slice(0, 4));
-const monthFromDate = (d: string) => d.slice(0, 7); // YYYY-MM
-const round2 = (n: number) => Math.round(n * 100) / 100;
+const IMPORT_FIELD_LABELS: Record<ImportField, string> = {
+  date: "Date",
+  kidId: "Child ID",
+  kidName: "Child name",
+  inTime: "In time",
+  outTime: "Out time",
+};
+
+// Header names we recognize when guessing the column mapping
+const IMPORT_HEADER_HINTS: Record<ImportField, string[]> = {
+  date: ["date", "day"],
+  kidId: ["kidid", "childid", "id"],
+  kidName: ["kidname", "childname", "name", "child", "kid"],
+  inTime: ["intime", "in", "checkin", "arrival", "timein"],
+  outTime: ["outtime", "out", "checkout", "departure", "timeout"],
+};
+
+function guessImportMapping(headers: string[]): ImportMapping {
+  const norm = (h: string) => h.toLowerCase().replace(/[^a-z]/g, "");
+  const mapping = { date: "", kidId: "", kidName: "", inTime: "", outTime: "" };
+  for (const f of Object.keys(mapping) as ImportField[]) {
+    mapping[f] = headers.find((h) => IMPORT_HEADER_HINTS[f].includes(norm(h))) ?? "";
+  }
+  return mapping;
+}
+
+// Accepts YYYY-MM-DD, M/D/YYYY, or an Excel serial date number
+function parseImportDate(v: unknown): string | null {
+  if (typeof v === "number" && Number.isFinite(v)) {
+    // Excel day 25569 = 1970-01-01
+    const d = new Date(Math.round((v - 25569) * 86400 * 1000));
+    return d.toISOString().slice(0, 10);
+  }
+  const t = String(v ?? "").trim();
+  if (isValidDate(t)) return t;
+  const m = t.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (m) {
+    const iso = `${m[3]}-${m[1].padStart(2, "0")}-${m[2].padStart(2, "0")}`;
+    return isValidDate(iso) ? iso : null;
+  }
+  return null;
+}
+
+// Accepts H:MM / HH:MM (24h), "h:mm AM/PM", or an Excel time fraction.
+// Returns "" for an empty cell and null when the value can't be read.
+function parseImportTime(v: unknown): string | null {
+  if (v === undefined || v === null || String(v).trim() === "") return "";
+  if (typeof v === "number" && Number.isFinite(v)) {
+    const mins = Math.round((v % 1) * 24 * 60);
+    if (mins >= 24 * 60) return null;
+    return `${String(Math.floor(mins / 60)).padStart(2, "0")}:${String(mins % 60).padStart(2, "0")}`;
+  }
+  const m = String(v)
+    .trim()
+    .match(/^(\d{1,2}):(\d{2})(?::\d{2})?\s*([ap]\.?m\.?)?$/i);
+  if (!m) return null;
+  let h = Number(m[1]);
+  const ampm = m[3]?.[0].toLowerCase();
+  if (ampm) {
+    if (h < 1 || h > 12) return null;
+    if (ampm === "p" && h !== 12) h += 12;
+    if (ampm === "a" && h === 12) h = 0;
+  }
+  const t = `${String(h).padStart(2, "0")}:${m[2]}`;
+  return isValidHHMM(t) ? t : null;
+}
+
+// Dry run: validate every row and work out what the import would write.
+// Rows for the same child and date become segments of one record.
+function planImport(
+  rows: Record<string, unknown>[],
+  mapping: ImportMapping,
+  kids: Kid[],
+  existingIds: Set<string>,
+  createMissingKids: boolean,
+  lockedMonths: Set<string>
+): ImportPlan {
+  const errors: ImportPlan["errors"] = [];
+  const newKids = new Map<string, string>(); // lower-case name -> name as first written
+  const byId = new Map<string, ImportPlan["rows"][number]>();
+
+  const kidsById = new Map(kids.map((k) => [k.id, k]));
+  const kidsByName = new Map(kids.map((k) => [k.name.trim().toLowerCase(), k]));
+
+  rows.forEach((row, idx) => {
+    const rowNo = idx + 2; // header is row 1
+    const cell = (f: ImportField) => (mapping[f] ? row[mapping[f]] : undefined);
+
+    const date = parseImportDate(cell("date"));
+    if (!date) {
+      errors.push({ row: rowNo, message: "Missing or invalid date." });
+      return;
+    }
+    if (lockedMonths.has(monthFromDate(date))) {
+      errors.push({ row: rowNo, message: `${monthFromDate(date)} is closed.` });
+      return;
+    }
+
+    const rawId = String(cell("kidId") ?? "").trim();
+    const rawName = String(cell("kidName") ?? "").trim();
+    let kid = rawId ? kidsById.get(rawId) : undefined;
+    if (!kid && rawName) kid = kidsByName.get(rawName.toLowerCase());
+    if (!kid && !(rawName && createMissingKids)) {
+      errors.push({
+        row: rowNo,
+        message: rawId || rawName ? `No child matches "${rawId || rawName}".` : "Missing child name or id.",
+      });
+      return;
+    }
+    if (!kid && !newKids.has(rawName.toLowerCase())) newKids.set(rawName.toLowerCase(), rawName);
+
+    const inTime = parseImportTime(cell("inTime"));
+    const outTime = parseImportTime(cell("outTime"));
+    // Same rules as saveManualTimes
+    if (!inTime) {
+      errors.push({ row: rowNo, message: "Please enter a valid In time (HH:MM)." });
+      return;
+    }
+    if (outTime === null) {
+      errors.push({ row: rowNo, message: "Out time must be blank or a valid HH:MM." });
+      return;
+    }
+    if (outTime && toMin(outTime)! < toMin(inTime)!) {
+      errors.push({ row: rowNo, message: "Out time cannot be earlier than In time." });
+      return;
+    }
+
+    const id = kid ? `${date}_${kid.id}` : `${date}_new:${rawName.toLowerCase()}`;
+    const cur = byId.get(id) ?? {
+      id,
+      date,
+      kidId: kid?.id ?? "",
+      kidName: kid?.name ?? rawName,
+      segments: [],
+      action: existingIds.has(id) ? "update" : "insert",
+      sourceRows: [],
+    };
+    cur.segments.push({ in: inTime, out: outTime });
+    cur.sourceRows.push(rowNo);
+    byId.set(id, cur);
+  });
+
+  // Combined segments must also be consistent (no overlaps, one open at most)
+  const planned: ImportPlan["rows"] = [];
+  for (const r of byId.values()) {
+    const problem = validateSegments(r.segments);
+    if (problem) {
+      errors.push({ row: r.sourceRows[0], message: `${r.kidName} on ${r.date}: ${problem}` });
+    } else {
+      planned.push(r);
+    }
+  }
+
+  return {
+    rows: planned.sort((a, b) => a.date.localeCompare(b.date) || a.kidName.localeCompare(b.kidName)),
+    errors: errors.sort((a, b) => a.row - b.row),
+    newKids: [...newKids.values()],
+  };
+}
 
 function buttonStyle(variant: "primary" | "success" | "danger" | "warning" | "neutral") {
   const base: React.CSSProperties = {
@@ -153,479 +916,3833 @@ function cardStyle(extra?: React.CSSProperties): React.CSSProperties {
   };
 }
 
-export default function App() {
-  const [user, setUser] = useState<User | null>(null);
-  const [date, setDate] = useState(today);
-  const [kids, setKids] = useState<Kid[]>([]);
-  const [records, setRecords] = useState<RecordRow[]>([]);
-  const [newKid, setNewKid] = useState("");
-
-  // manual edit UI state
-  const [editingKidId, setEditingKidId] = useState<string | null>(null);
-  const [editIn, setEditIn] = useState("");
-  const [editOut, setEditOut] = useState("");
-  const [editReason, setEditReason] = useState("");
+type BatchOp = (batch: WriteBatch) => void;
 
-  // UX status
-  const [saveStatus, setSaveStatus] = useState<string>("");
+// Firestore caps a batch at 500 writes; split larger jobs
+async function commitInChunks(ops: BatchOp[], size = 450) {
+  for (let i = 0; i < ops.length; i += size) {
+    const batch = writeBatch(db);
+    for (const op of ops.slice(i, i + size)) op(batch);
+    await batch.commit();
+  }
+}
 
-  // reimbursement rates (by year)
-  const [ratesByYear, setRatesByYear] = useState<
-    Record<number, ReimbursementRates>
-  >({});
-  const [ratesYear, setRatesYear] = useState<number>(new Date().getFullYear());
-  const [rateBreakfast, setRateBreakfast] = useState<string>("0");
-  const [rateSnack, setRateSnack] = useState<string>("0");
-  const [rateLunch, setRateLunch] = useState<string>("0");
-  const [ratesStatus, setRatesStatus] = useState<string>("");
+// users/{uid}.daycareId while still a member there; otherwise claim a pending
+// invite; otherwise start a new daycare owned by this user and carry over
+// their old data.
+async function resolveDaycare(user: User): Promise<string> {
+  const profileRef = doc(db, "users", user.uid);
+  const profile = await getDoc(profileRef);
+  const current = profile.exists() ? (profile.data() as UserProfile).daycareId : "";
+  if (current) {
+    const membership = await getDoc(doc(db, "daycares", current, "members", user.uid));
+    if (membership.exists()) return current;
+  }
 
-  // auth listener
-  useEffect(() => onAuthStateChanged(auth, setUser), []);
+  const member = (role: Role): Member => ({
+    uid: user.uid,
+    email: user.email ?? "",
+    displayName: user.displayName ?? "",
+    role,
+    addedAt: serverTimestamp(),
+  });
 
-  // live sync kids + records + reimbursement rates
-  useEffect(() => {
-    if (!user) return;
+  const email = (user.email ?? "").toLowerCase();
+  if (email) {
+    const inviteRef = doc(db, "invites", email);
+    const invite = await getDoc(inviteRef);
+    if (invite.exists()) {
+      const inv = invite.data() as Invite;
+      const batch = writeBatch(db);
+      batch.set(doc(db, "daycares", inv.daycareId, "members", user.uid), member(inv.role));
+      batch.set(profileRef, { daycareId: inv.daycareId } satisfies UserProfile);
+      batch.delete(inviteRef);
+      await batch.commit();
+      return inv.daycareId;
+    }
+  }
 
-    const kidsCol = collection(db, "users", user.uid, "kids");
-    const unsubKids = onSnapshot(query(kidsCol, orderBy("name")), (snap) => {
-      setKids(snap.docs.map((d) => d.data() as Kid));
-    });
+  // Removed from their daycare and not re-invited
+  if (current) return current;
 
-    const recCol = collection(db, "users", user.uid, "records");
-    const unsubRecs = onSnapshot(query(recCol, orderBy("date")), (snap) => {
-      setRecords(snap.docs.map((d) => d.data() as RecordRow));
-    });
+  // New owner. The daycare id is the owner's uid, which keeps the
+  // old users/{uid}/... data easy to find for the one-time copy.
+  const daycareId = user.uid;
+  const daycare: Daycare = {
+    id: daycareId,
+    name: user.displayName ? `${user.displayName}'s Daycare` : "My Daycare",
+    ownerUid: user.uid,
+    createdAt: serverTimestamp(),
+  };
+  const batch = writeBatch(db);
+  batch.set(doc(db, "daycares", daycareId), daycare);
+  batch.set(doc(db, "daycares", daycareId, "members", user.uid), member("owner"));
+  await batch.commit();
 
-    // users/{uid}/settings/config/reimbursementRates/{year}
-    const ratesCol = collection(
-      db,
-      "users",
-      user.uid,
-      "settings",
-      "config",
-      "reimbursementRates"
-    );
-    const unsubRates = onSnapshot(query(ratesCol, orderBy("year")), (snap) => {
-      const map: Record<number, ReimbursementRates> = {};
-      for (const d of snap.docs) {
-        const r = d.data() as ReimbursementRates;
-        map[r.year] = r;
-      }
-      setRatesByYear(map);
-    });
+  await copyUserDataToDaycare(user.uid, daycareId);
 
-    return () => {
-      unsubKids();
-      unsubRecs();
-      unsubRates();
-    };
-  }, [user]);
+  // Written last so an interrupted copy is retried on the next sign-in
+  await setDoc(profileRef, { daycareId } satisfies UserProfile);
+  return daycareId;
+}
 
-  // when changing selected year, populate inputs from saved rates (if exist)
-  useEffect(() => {
-    const r = ratesByYear[ratesYear];
-    if (r) {
-      setRateBreakfast(String(r.breakfast ?? 0));
-      setRateSnack(String(r.snack ?? 0));
-      setRateLunch(String(r.lunch ?? 0));
-    } else {
-      setRateBreakfast("0");
-      setRateSnack("0");
-      setRateLunch("0");
+// One-time copy of pre-workspace data from users/{uid}/... (left in place)
+async function copyUserDataToDaycare(uid: string, daycareId: string) {
+  const ops: BatchOp[] = [];
+  const copyCol = async (...path: string[]) => {
+    const snap = await getDocs(collection(db, "users", uid, ...path));
+    for (const d of snap.docs) {
+      ops.push((b) => b.set(doc(db, "daycares", daycareId, ...path, d.id), d.data()));
     }
-  }, [ratesYear, ratesByYear]);
+    return snap.docs;
+  };
 
-  async function addKid() {
-    if (!user) return;
-    const name = newKid.trim();
-    if (!name) return;
+  await copyCol("kids");
+  const recs = await copyCol("records");
+  for (const r of recs) await copyCol("records", r.id, "history");
 
-    const id = crypto.randomUUID();
-    const kid: Kid = { id, name, active: true };
-    await setDoc(doc(db, "users", user.uid, "kids", id), kid);
-    setNewKid("");
+  const config = await getDoc(doc(db, "users", uid, "settings", "config"));
+  if (config.exists()) {
+    const data = config.data();
+    ops.push((b) => b.set(doc(db, "daycares", daycareId, "settings", "config"), data));
+  }
+  for (const sub of ["ratePeriods", "mealSchedules", "reimbursementRates"]) {
+    await copyCol("settings", "config", sub);
   }
 
-  // Deactivate kid (hide from list, keep history)
-  async function deactivateKid(kid: Kid) {
-    if (!user) return;
+  await commitInChunks(ops);
+  await buildMissingRollups(daycareId, uid);
+}
 
-    const ok = confirm(
-      `Deactivate ${kid.name}? They will be hidden from the list, but history will remain.`
+// Records dated from..to inclusive, read once (reports, repairs, imports)
+async function fetchRecords(daycareId: string, from: string, to: string) {
+  const recCol = collection(db, "daycares", daycareId, "records");
+  const snap = await getDocs(query(recCol, where("date", ">=", from), where("date", "<=", to), orderBy("date")));
+  return snap.docs.map((d) => d.data() as RecordRow);
+}
+
+async function fetchAbsences(daycareId: string, from: string, to: string) {
+  const absCol = collection(db, "daycares", daycareId, "absences");
+  const snap = await getDocs(query(absCol, where("date", ">=", from), where("date", "<=", to), orderBy("date")));
+  return snap.docs.map((d) => d.data() as Absence);
+}
+
+async function fetchTimeRecords(daycareId: string, from: string, to: string) {
+  const timeCol = collection(db, "daycares", daycareId, "timeRecords");
+  const snap = await getDocs(query(timeCol, where("date", ">=", from), where("date", "<=", to), orderBy("date")));
+  return snap.docs.map((d) => d.data() as TimeRecord);
+}
+
+async function fetchKidRecords(daycareId: string, kidId: string) {
+  const recCol = collection(db, "daycares", daycareId, "records");
+  const snap = await getDocs(query(recCol, where("kidId", "==", kidId)));
+  return snap.docs.map((d) => d.data() as RecordRow);
+}
+
+// Copy per-year rate documents into contiguous periods (runs once, when no periods exist)
+async function migrateYearRates(daycareId: string) {
+  try {
+    const legacy = await getDocs(
+      collection(db, "daycares", daycareId, "settings", "config", "reimbursementRates")
     );
-    if (!ok) return;
+    if (legacy.empty) return;
 
-    const ref = doc(db, "users", user.uid, "kids", kid.id);
-    await updateDoc(ref, { active: false });
+    const periods = periodsFromYearRates(legacy.docs.map((d) => d.data() as LegacyYearRates));
+    const batch = writeBatch(db);
+    for (const p of periods) {
+      batch.set(doc(db, "daycares", daycareId, "settings", "config", "ratePeriods", p.startDate), {
+        ...p,
+        updatedAt: serverTimestamp(),
+      });
+    }
+    await batch.commit();
+  } catch (e) {
+    console.error("MIGRATE RATES FAILED:", e);
   }
+}
 
-  // Update OR Insert record for this kid+date
-  async function upsertRecord(kid: Kid, patch: Partial<RecordRow>) {
-    if (!user) return;
+// Set the month and year rollups built from `records`, and delete any of
+// `existing` that the records no longer produce. Locked months keep the
+// totals they were closed with.
+function rollupRebuildOps(
+  daycareId: string,
+  records: RecordRow[],
+  periods: RatePeriod[],
+  existing: string[],
+  locked: Set<string>
+): BatchOp[] {
+  const built = buildRollups(records, periods);
+  const rollupsCol = collection(db, "daycares", daycareId, "rollups");
+  const ops: BatchOp[] = [...built]
+    .filter(([key]) => !locked.has(key))
+    .map(
+      ([key, counts]): BatchOp =>
+        (b) => b.set(doc(rollupsCol, key), { ...counts, updatedAt: serverTimestamp() })
+    );
+  for (const key of existing) {
+    if (!built.has(key) && !locked.has(key)) ops.push((b) => b.delete(doc(rollupsCol, key)));
+  }
+  return ops;
+}
 
-    const id = `${date}_${kid.id}`;
-    const ref = doc(db, "users", user.uid, "records", id);
-    const existing = await getDoc(ref);
-
-    const base: RecordRow = existing.exists()
-      ? (existing.data() as RecordRow)
-      : {
-          id,
-          date,
-          kidId: kid.id,
-          kidName: kid.name,
-          inTime: "",
-          outTime: "",
-          breakfast: 0,
-          amSnack: 0,
-          lunch: 0,
-          pmSnack: 0,
-          source: "auto",
-          editReason: "",
-        };
+// Build rollups for records written before they existed (runs once, when a
+// workspace has none, and after the one-time copy). Only owners may set
+// rollups outright, so anyone else leaves it for the owner's next visit.
+async function buildMissingRollups(daycareId: string, uid: string) {
+  try {
+    const me = await getDoc(doc(db, "daycares", daycareId, "members", uid));
+    if (!me.exists() || (me.data() as Member).role !== "owner") return;
 
-    const cleanedPatch = stripUndefined(patch);
+    const records = await fetchRecords(daycareId, "", "9999-12-31");
+    if (records.length === 0) return;
 
-    const merged: RecordRow = calcMeals({
-      ...base,
-      ...(cleanedPatch as any),
-      updatedAt: serverTimestamp(),
-    });
+    const config = ["daycares", daycareId, "settings", "config"] as const;
+    const rates = await getDocs(query(collection(db, ...config, "ratePeriods"), orderBy("startDate")));
+    let periods = rates.docs.map((d) => d.data() as RatePeriod);
+    if (periods.length === 0) {
+      // Not migrated yet; price with what migrateYearRates will write
+      const legacy = await getDocs(collection(db, ...config, "reimbursementRates"));
+      periods = periodsFromYearRates(legacy.docs.map((d) => d.data() as LegacyYearRates));
+    }
+    const locks = await getDocs(collection(db, "daycares", daycareId, "monthLocks"));
+    const locked = new Set(locks.docs.filter((d) => (d.data() as MonthLock).locked).map((d) => d.id));
+    await commitInChunks(rollupRebuildOps(daycareId, records, periods, [], locked));
+  } catch (e) {
+    console.error("BUILD ROLLUPS FAILED:", e);
+  }
+}
+
+// Finger/stylus signature box; reports a PNG data URL, "" once cleared
+function SignaturePad({ onChange }: { onChange: (dataUrl: string) => void }) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawing = useRef(false);
+
+  const point = (e: PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
 
-    await setDoc(ref, stripUndefined(merged) as any);
+  function start(e: PointerEvent<HTMLCanvasElement>) {
+    const ctx = e.currentTarget.getContext("2d");
+    if (!ctx) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drawing.current = true;
+    const { x, y } = point(e);
+    ctx.lineWidth = 2.5;
+    ctx.lineCap = "round";
+    ctx.strokeStyle = COLORS.header;
+    ctx.beginPath();
+    ctx.moveTo(x, y);
   }
 
-  async function checkIn(kid: Kid) {
-    try {
-      const now = new Date().toTimeString().slice(0, 5);
-      await upsertRecord(kid, {
-        inTime: now,
-        source: "auto",
-        editedBy: user?.uid,
-        editReason: "Check-in button",
-      });
-    } catch (e) {
-      console.error("CHECK IN FAILED:", e);
-      alert("Check-in failed. See console for error.");
-    }
+  function move(e: PointerEvent<HTMLCanvasElement>) {
+    if (!drawing.current) return;
+    const ctx = e.currentTarget.getContext("2d");
+    if (!ctx) return;
+    const { x, y } = point(e);
+    ctx.lineTo(x, y);
+    ctx.stroke();
   }
 
-  async function checkOut(kid: Kid) {
-    try {
-      const now = new Date().toTimeString().slice(0, 5);
-      await upsertRecord(kid, {
-        outTime: now,
-        source: "auto",
-        editedBy: user?.uid,
-        editReason: "Check-out button",
-      });
-    } catch (e) {
-      console.error("CHECK OUT FAILED:", e);
-      alert("Check-out failed. See console for error.");
-    }
+  function end(e: PointerEvent<HTMLCanvasElement>) {
+    if (!drawing.current) return;
+    drawing.current = false;
+    onChange(e.currentTarget.toDataURL("image/png"));
   }
 
-  async function clearTimes(kid: Kid) {
-    try {
-      setSaveStatus("Clearing…");
+  function clear() {
+    const canvas = canvasRef.current;
+    canvas?.getContext("2d")?.clearRect(0, 0, canvas.width, canvas.height);
+    onChange("");
+  }
 
-      await upsertRecord(kid, {
-        inTime: "",
-        outTime: "",
-        breakfast: 0,
-        amSnack: 0,
-        lunch: 0,
-        pmSnack: 0,
-        source: "manual",
-        editedBy: user?.uid,
-        editReason: "Cleared times",
-      });
+  return (
+    <div>
+      <canvas
+        ref={canvasRef}
+        width={480}
+        height={160}
+        onPointerDown={start}
+        onPointerMove={move}
+        onPointerUp={end}
+        onPointerCancel={end}
+        style={{
+          width: 480,
+          height: 160,
+          maxWidth: "100%",
+          background: "#fff",
+          border: `1px solid ${COLORS.border}`,
+          borderRadius: 10,
+          touchAction: "none",
+        }}
+      />
+      <div>
+        <button style={buttonStyle("neutral")} onClick={clear}>
+          Clear signature
+        </button>
+      </div>
+    </div>
+  );
+}
 
-      setSaveStatus("Cleared ✓");
-      setTimeout(() => setSaveStatus(""), 1500);
-    } catch (e) {
-      console.error("CLEAR TIMES FAILED:", e);
-      setSaveStatus("");
-      alert("Clear failed. See console for error.");
-    }
-  }
+const KIOSK_KEY = "daycare-kiosk";
+const STAFF_ON_DUTY_KEY = "daycare-staff-on-duty";
 
-  async function saveManualTimes(kid: Kid) {
-    try {
-      setSaveStatus("Saving…");
+const signatureFrom = (guardian: string, image: string): KioskSignature => ({
+  guardian,
+  image,
+  signedAt: Date.now(),
+});
 
-      const inTrim = editIn.trim();
-      const outTrim = editOut.trim();
-      const reasonTrim = editReason.trim();
+export default function App() {
+  const [user, setUser] = useState<User | null>(null);
+  const [date, setDate] = useState(() => today(BROWSER_TIME_ZONE));
+  const [kids, setKids] = useState<Kid[]>([]);
+  const [dayRecords, setDayRecords] = useState<RecordRow[]>([]); // the selected date only
+  const [openRecords, setOpenRecords] = useState<RecordRow[]>([]); // any date, still checked in
+  const [rollups, setRollups] = useState<(RollupCounts & { period: string })[]>([]);
+  const [newKid, setNewKid] = useState("");
 
-      if (!inTrim || !isValidHHMM(inTrim)) {
-        setSaveStatus("");
-        alert("Please enter a valid In time (HH:MM).");
-        return;
-      }
-      if (outTrim && !isValidHHMM(outTrim)) {
-        setSaveStatus("");
-        alert("Out time must be blank or a valid HH:MM.");
-        return;
-      }
-      if (outTrim && toMin(outTrim)! < toMin(inTrim)!) {
-        setSaveStatus("");
-        alert("Out time cannot be earlier than In time.");
-        return;
-      }
+  // child detail page (null = daily view)
+  const [profileDraft, setProfileDraft] = useState<KidProfileDraft | null>(null);
+  const [profileStatus, setProfileStatus] = useState<string>("");
+  const [renameValue, setRenameValue] = useState("");
+  const [renameRecords, setRenameRecords] = useState(true);
 
-      const patch: Partial<RecordRow> = {
-        inTime: inTrim,
-        outTime: outTrim || "",
-        source: "manual",
-        editedBy: user?.uid,
-      };
+  // manual edit UI state
+  const [editingKidId, setEditingKidId] = useState<string | null>(null);
+  const [editSegments, setEditSegments] = useState<Segment[]>([]);
+  const [editOverrides, setEditOverrides] = useState<Partial<Record<MealKey, MealOverride>>>({});
+  const [editReason, setEditReason] = useState("");
 
-      if (reasonTrim) patch.editReason = reasonTrim;
+  // history drawer (one child card at a time)
+  const [historyKidId, setHistoryKidId] = useState<string | null>(null);
+  const [history, setHistory] = useState<HistoryEntry[]>([]);
+  const [conflicts, setConflicts] = useState<ConflictCopy[]>([]);
+  const [timeConflicts, setTimeConflicts] = useState<TimeConflictCopy[]>([]);
 
-      await upsertRecord(kid, patch);
+  // sync status (writes queue in Firestore's local cache while offline)
+  const [online, setOnline] = useState(() => navigator.onLine);
+  const [pendingWrites, setPendingWrites] = useState(0); // this session's writes not yet on the server
+  // Writes queued before a reload stay in Firestore's local queue; until the
+  // server has all of them the header says so instead of "synced"
+  const [queueDrained, setQueueDrained] = useState(false);
 
-      setSaveStatus("Saved ✓");
-      setEditingKidId(null);
-      setTimeout(() => setSaveStatus(""), 1500);
-    } catch (e) {
-      console.error("SAVE MANUAL TIMES FAILED:", e);
-      setSaveStatus("");
-      alert("Save failed. See console for error.");
-    }
-  }
+  // UX status
+  const [saveStatus, setSaveStatus] = useState<string>("");
+
+  // reimbursement rates (by effective-date period)
+  const [ratePeriods, setRatePeriods] = useState<RatePeriod[]>([]);
+  const [rateDrafts, setRateDrafts] = useState<RatePeriodDraft[] | null>(null); // null = not editing
+  const [ratesStatus, setRatesStatus] = useState<string>("");
+
+  // spreadsheet import (dry run first, then write)
+  const [importFileName, setImportFileName] = useState("");
+  const [importHeaders, setImportHeaders] = useState<string[]>([]);
+  const [importRows, setImportRows] = useState<Record<string, unknown>[] | null>(null);
+  const [importMapping, setImportMapping] = useState<ImportMapping>({
+    date: "",
+    kidId: "",
+    kidName: "",
+    inTime: "",
+    outTime: "",
+  });
+  const [importCreateKids, setImportCreateKids] = useState(false);
+  const [importExistingIds, setImportExistingIds] = useState<Set<string>>(new Set()); // for the insert/update preview
+  const [importStatus, setImportStatus] = useState("");
+
+  // reports: records for a chosen range, read once on demand
+  const [reportFrom, setReportFrom] = useState<string>(() => today(BROWSER_TIME_ZONE).slice(0, 7) + "-01");
+  const [reportTo, setReportTo] = useState<string>(() => today(BROWSER_TIME_ZONE));
+  const [reportRange, setReportRange] = useState<{ from: string; to: string } | null>(null);
+  const [rangeRecords, setRangeRecords] = useState<RecordRow[]>([]);
+  const [reportStatus, setReportStatus] = useState("");
+
+  // monthly claim report
+  const [claimMonth, setClaimMonth] = useState<string>(() => today(BROWSER_TIME_ZONE).slice(0, 7));
 
-  async function saveRatesForYear() {
+  // provider-wide settings (closing time, …)
+  const [settings, setSettings] = useState<ProviderSettings>(DEFAULT_SETTINGS);
+  const [closeAtTime, setCloseAtTime] = useState<Record<string, string>>({}); // per-kid fix inputs
+
+  // meal schedule versions (by effective date)
+  const [mealSchedules, setMealSchedules] = useState<MealSchedule[]>([]);
+  const [closures, setClosures] = useState<Closure[]>([]);
+  const [closureDraft, setClosureDraft] = useState<Closure>({
+    date: "",
+    kind: "holiday",
+    label: "",
+    closingTime: "12:00",
+  });
+  const [schedFrom, setSchedFrom] = useState<string>(() => today(BROWSER_TIME_ZONE));
+  const [schedDay, setSchedDay] = useState<string>(""); // "" = all days, else "0".."6"
+  const [schedMeals, setSchedMeals] = useState<MealTimes>(DEFAULT_MEAL_TIMES);
+  const [schedWeekdays, setSchedWeekdays] = useState<Record<string, Partial<MealTimes>>>({});
+  const [schedStatus, setSchedStatus] = useState<string>("");
+
+  // shared daycare workspace: daycares/{daycareId}/...
+  const [daycareId, setDaycareId] = useState<string>("");
+  const [role, setRole] = useState<Role | null | undefined>(undefined); // undefined = still loading
+  const [members, setMembers] = useState<Member[]>([]);
+  const [invites, setInvites] = useState<Invite[]>([]);
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<Role>("staff");
+
+  const [families, setFamilies] = useState<Family[]>([]);
+  const [claimByFamily, setClaimByFamily] = useState(false);
+
+  // tuition billing
+  const [payments, setPayments] = useState<Payment[]>([]);
+  const [billingMonth, setBillingMonth] = useState<string>(() => today(BROWSER_TIME_ZONE).slice(0, 7));
+  const [billingRecords, setBillingRecords] = useState<RecordRow[]>([]); // every record through billingThrough
+  const [billingThrough, setBillingThrough] = useState(""); // YYYY-MM loaded, "" = not loaded
+  const [statementYear, setStatementYear] = useState<number>(() => yearFromDate(today(BROWSER_TIME_ZONE)) - 1);
+
+  // closed claim months
+  const [monthLocks, setMonthLocks] = useState<MonthLock[]>([]);
+
+  // capacity and ratios; without a staff roster, staff on duty is entered per device
+  const [manualStaffOnDuty, setManualStaffOnDuty] = useState(
+    () => Number(localStorage.getItem(STAFF_ON_DUTY_KEY) ?? 1) || 0
+  );
+  const [ratioDraft, setRatioDraft] = useState<AgeGroup[] | null>(null); // null = not editing
+
+  // staff time clock
+  const [staffRoster, setStaffRoster] = useState<StaffMember[]>([]);
+  const [dayTime, setDayTime] = useState<TimeRecord[]>([]); // the selected date only
+  const [openTime, setOpenTime] = useState<TimeRecord[]>([]); // any date, still clocked in
+  const [rangeTime, setRangeTime] = useState<TimeRecord[]>([]); // loaded with the report range
+  const [newStaffName, setNewStaffName] = useState("");
+
+  // expected schedules and absences
+  const [dayAbsences, setDayAbsences] = useState<Absence[]>([]); // the selected date only
+  const [rangeAbsences, setRangeAbsences] = useState<Absence[]>([]); // loaded with the report range
+  const [clockNow, setClockNow] = useState(() => nowHHMM(BROWSER_TIME_ZONE)); // HH:MM, ticks each minute
+
+  // parent kiosk; remembered per device so reloading doesn't leave it
+  const [kioskMode, setKioskMode] = useState(() => localStorage.getItem(KIOSK_KEY) === "1");
+  const [kioskPin, setKioskPin] = useState("");
+  const [kioskFamily, setKioskFamily] = useState<{ guardian: string; kidIds: string[] } | null>(null);
+  const [kioskSelected, setKioskSelected] = useState<string[]>([]);
+  const [kioskSigner, setKioskSigner] = useState("");
+  const [kioskSignature, setKioskSignature] = useState(""); // PNG data URL
+  const [kioskStatus, setKioskStatus] = useState("");
+
+  const can = permissionsFor(role ?? null);
+
+  // auth listener
+  useEffect(
+    () =>
+      onAuthStateChanged(auth, (u) => {
+        setUser(u);
+        setDaycareId("");
+        setRole(undefined);
+      }),
+    []
+  );
+
+  // connectivity
+  useEffect(() => {
+    const up = () => setOnline(true);
+    const down = () => setOnline(false);
+    window.addEventListener("online", up);
+    window.addEventListener("offline", down);
+    return () => {
+      window.removeEventListener("online", up);
+      window.removeEventListener("offline", down);
+    };
+  }, []);
+
+  // Writes left in the local queue from before a reload
+  useEffect(() => {
     if (!user) return;
-    setRatesStatus("Saving…");
+    waitForPendingWrites(db)
+      .then(() => setQueueDrained(true))
+      .catch(() => {});
+  }, [user]);
 
-    const y = Number(ratesYear);
-    const b = Number(rateBreakfast);
-    const s = Number(rateSnack);
-    const l = Number(rateLunch);
-
-    const isBad =
-      !Number.isFinite(y) ||
-      y < 2000 ||
-      y > 2100 ||
-      !Number.isFinite(b) ||
-      b < 0 ||
-      !Number.isFinite(s) ||
-      s < 0 ||
-      !Number.isFinite(l) ||
-      l < 0;
-
-    if (isBad) {
-      setRatesStatus("");
-      alert("Please enter valid non-negative numbers for rates and a valid year.");
-      return;
-    }
+  // provider-local time for "expected, not arrived"
+  useEffect(() => {
+    const tick = () => setClockNow(nowHHMM(settings.timeZone));
+    const first = setTimeout(tick, 0);
+    const id = setInterval(tick, 60_000);
+    return () => {
+      clearTimeout(first);
+      clearInterval(id);
+    };
+  }, [settings.timeZone]);
 
-    const ref = doc(
+  // find (or create) this user's daycare
+  useEffect(() => {
+    if (!user) return;
+    let cancelled = false;
+    resolveDaycare(user)
+      .then((id) => {
+        if (!cancelled) setDaycareId(id);
+      })
+      .catch((e) => {
+        console.error("LOAD DAYCARE FAILED:", e);
+        alert("Could not load your daycare. See console for error.");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [user]);
+
+  // my role, live so changes by the owner apply right away
+  useEffect(() => {
+    if (!user || !daycareId) return;
+    return onSnapshot(doc(db, "daycares", daycareId, "members", user.uid), (snap) => {
+      setRole(snap.exists() ? (snap.data() as Member).role : null);
+    });
+  }, [user, daycareId]);
+
+  // staff roster + pending invites (owner only)
+  useEffect(() => {
+    if (!daycareId || role !== "owner") return;
+    const unsubMembers = onSnapshot(collection(db, "daycares", daycareId, "members"), (snap) => {
+      setMembers(snap.docs.map((d) => d.data() as Member));
+    });
+    const unsubInvites = onSnapshot(
+      query(collection(db, "invites"), where("daycareId", "==", daycareId)),
+      (snap) => setInvites(snap.docs.map((d) => d.data() as Invite))
+    );
+    return () => {
+      unsubMembers();
+      unsubInvites();
+    };
+  }, [daycareId, role]);
+
+  // payments received (owner + bookkeeper)
+  useEffect(() => {
+    if (!daycareId || (role !== "owner" && role !== "bookkeeper")) return;
+    const paymentsCol = collection(db, "daycares", daycareId, "payments");
+    return onSnapshot(query(paymentsCol, orderBy("date")), (snap) => {
+      setPayments(snap.docs.map((d) => d.data() as Payment));
+    });
+  }, [daycareId, role]);
+
+  // live sync kids + records + reimbursement rates
+  useEffect(() => {
+    if (!user || !daycareId) return;
+
+    const kidsCol = collection(db, "daycares", daycareId, "kids");
+    const unsubKids = onSnapshot(query(kidsCol, orderBy("name")), (snap) => {
+      setKids(snap.docs.map((d) => d.data() as Kid));
+    });
+
+    const familiesCol = collection(db, "daycares", daycareId, "families");
+    const unsubFamilies = onSnapshot(query(familiesCol, orderBy("name")), (snap) => {
+      setFamilies(snap.docs.map((d) => d.data() as Family));
+    });
+
+    // Still checked in on any date: withSegments() leaves outTime "" while
+    // the last segment is open (cleared records match too and are filtered out)
+    const recCol = collection(db, "daycares", daycareId, "records");
+    const unsubOpen = onSnapshot(query(recCol, where("outTime", "==", "")), (snap) => {
+      setOpenRecords(snap.docs.map((d) => d.data() as RecordRow).filter(isIncomplete));
+    });
+
+    // daycares/{daycareId}/rollups/{YYYY-MM | YYYY}, kept current by every record write
+    const rollupsCol = collection(db, "daycares", daycareId, "rollups");
+    let rollupsChecked = false;
+    const unsubRollups = onSnapshot(rollupsCol, (snap) => {
+      setRollups(snap.docs.map((d) => ({ ...rollupFrom(d.data() as Partial<RollupCounts>), period: d.id })));
+
+      // First load with no rollups: build them from the existing records once
+      if (!rollupsChecked && !snap.metadata.fromCache) {
+        rollupsChecked = true;
+        if (snap.empty) buildMissingRollups(daycareId, user.uid);
+      }
+    });
+
+    // daycares/{daycareId}/settings/config/ratePeriods/{startDate}
+    const ratesCol = collection(
       db,
-      "users",
-      user.uid,
+      "daycares",
+      daycareId,
       "settings",
       "config",
-      "reimbursementRates",
-      String(y)
+      "ratePeriods"
     );
+    let migrationChecked = false;
+    const unsubRates = onSnapshot(query(ratesCol, orderBy("startDate")), (snap) => {
+      setRatePeriods(snap.docs.map((d) => d.data() as RatePeriod));
 
-    const payload: ReimbursementRates = {
-      year: y,
-      breakfast: round2(b),
-      snack: round2(s),
-      lunch: round2(l),
-      updatedAt: serverTimestamp(),
-    };
+      // First load with no periods: convert any per-year documents once
+      if (!migrationChecked && !snap.metadata.fromCache) {
+        migrationChecked = true;
+        if (snap.empty) migrateYearRates(daycareId);
+      }
+    });
 
-    try {
-      await setDoc(ref, payload);
-      setRatesStatus("Saved ✓");
-      setTimeout(() => setRatesStatus(""), 1500);
-    } catch (e) {
-      console.error("SAVE RATES FAILED:", e);
-      setRatesStatus("");
-      alert("Saving reimbursement rates failed. See console for error.");
-    }
-  }
+    // daycares/{daycareId}/settings/config/mealSchedules/{effectiveFrom}
+    const schedCol = collection(
+      db,
+      "daycares",
+      daycareId,
+      "settings",
+      "config",
+      "mealSchedules"
+    );
+    const unsubSched = onSnapshot(query(schedCol, orderBy("effectiveFrom")), (snap) => {
+      setMealSchedules(snap.docs.map((d) => d.data() as MealSchedule));
+    });
+
+    // daycares/{daycareId}/settings/config/closures/{date}
+    const closuresCol = collection(db, "daycares", daycareId, "settings", "config", "closures");
+    const unsubClosures = onSnapshot(query(closuresCol, orderBy("date")), (snap) => {
+      setClosures(snap.docs.map((d) => d.data() as Closure));
+    });
 
-  const getRatesForYear = (y: number): ReimbursementRates => {
-    const exact = ratesByYear[y];
-    if (exact) return exact;
+    const staffCol = collection(db, "daycares", daycareId, "staff");
+    const unsubStaff = onSnapshot(query(staffCol, orderBy("name")), (snap) => {
+      setStaffRoster(snap.docs.map((d) => d.data() as StaffMember));
+    });
 
-    const years = Object.keys(ratesByYear)
-      .map(Number)
-      .filter((n) => Number.isFinite(n))
-      .sort((a, b) => a - b);
+    const timeCol = collection(db, "daycares", daycareId, "timeRecords");
+    const unsubOpenTime = onSnapshot(query(timeCol, where("outTime", "==", "")), (snap) => {
+      setOpenTime(snap.docs.map((d) => d.data() as TimeRecord).filter((t) => !!openSegment(t)));
+    });
 
-    let best: number | null = null;
-    for (const yr of years) {
-      if (yr <= y) best = yr;
-      else break;
-    }
+    const locksCol = collection(db, "daycares", daycareId, "monthLocks");
+    const unsubLocks = onSnapshot(locksCol, (snap) => {
+      setMonthLocks(snap.docs.map((d) => d.data() as MonthLock));
+    });
 
-    if (best != null) return ratesByYear[best];
+    // Copies still in flight are deleted again by their record batch; only
+    // ones the server has and kept are rejected writes
+    const conflictsCol = collection(db, "daycares", daycareId, "conflicts");
+    const unsubConflicts = onSnapshot(
+      query(conflictsCol, orderBy("clientAt")),
+      { includeMetadataChanges: true },
+      (snap) => {
+        setConflicts(
+          snap.docs
+            .filter((d) => !d.metadata.hasPendingWrites)
+            .map((d) => ({ ...(d.data() as Omit<ConflictCopy, "id">), id: d.id }))
+        );
+      }
+    );
+    const timeConflictsCol = collection(db, "daycares", daycareId, "timeConflicts");
+    const unsubTimeConflicts = onSnapshot(
+      query(timeConflictsCol, orderBy("clientAt")),
+      { includeMetadataChanges: true },
+      (snap) => {
+        setTimeConflicts(
+          snap.docs
+            .filter((d) => !d.metadata.hasPendingWrites)
+            .map((d) => ({ ...(d.data() as Omit<TimeConflictCopy, "id">), id: d.id }))
+        );
+      }
+    );
 
-    return { year: y, breakfast: 0, snack: 0, lunch: 0 };
-  };
+    // daycares/{daycareId}/settings/config
+    const unsubSettings = onSnapshot(doc(db, "daycares", daycareId, "settings", "config"), (snap) => {
+      const next = { ...DEFAULT_SETTINGS, ...(snap.data() as Partial<ProviderSettings> | undefined) };
+      setSettings(next);
+      // Still on the device's "today": follow the provider's instead
+      setDate((d) => (d === today(BROWSER_TIME_ZONE) ? today(next.timeZone) : d));
+    });
 
-  const monthlySummary = useMemo(() => {
-    type Row = {
-      month: string; // YYYY-MM
-      year: number;
-      breakfasts: number;
-      snacks: number;
-      lunches: number;
-      total: number;
-      rateYearUsed: number;
+    return () => {
+      unsubKids();
+      unsubFamilies();
+      unsubOpen();
+      unsubRollups();
+      unsubRates();
+      unsubSched();
+      unsubLocks();
+      unsubConflicts();
+      unsubTimeConflicts();
+      unsubClosures();
+      unsubStaff();
+      unsubOpenTime();
+      unsubSettings();
     };
+  }, [user, daycareId]);
 
-    const map = new Map<string, Row>();
+  // live records for the selected date
+  useEffect(() => {
+    if (!user || !daycareId) return;
 
-    for (const r of records) {
-      const month = monthFromDate(r.date);
-      const year = yearFromDate(r.date);
-      const rates = getRatesForYear(year);
+    const recCol = collection(db, "daycares", daycareId, "records");
+    const unsubRecs = onSnapshot(query(recCol, where("date", "==", date)), (snap) => {
+      setDayRecords(snap.docs.map((d) => d.data() as RecordRow));
+    });
 
-      const breakfasts = r.breakfast || 0;
-      const snacks = (r.amSnack || 0) + (r.pmSnack || 0);
-      const lunches = r.lunch || 0;
+    const timeCol = collection(db, "daycares", daycareId, "timeRecords");
+    const unsubTime = onSnapshot(query(timeCol, where("date", "==", date)), (snap) => {
+      setDayTime(snap.docs.map((d) => d.data() as TimeRecord));
+    });
 
-      const amount =
-        breakfasts * (rates.breakfast || 0) +
-        snacks * (rates.snack || 0) +
-        lunches * (rates.lunch || 0);
+    const absCol = collection(db, "daycares", daycareId, "absences");
+    const unsubAbs = onSnapshot(query(absCol, where("date", "==", date)), (snap) => {
+      setDayAbsences(snap.docs.map((d) => d.data() as Absence));
+    });
 
-      const cur = map.get(month) || {
-        month,
-        year,
-        breakfasts: 0,
-        snacks: 0,
-        lunches: 0,
-        total: 0,
-        rateYearUsed: rates.year,
-      };
+    return () => {
+      unsubRecs();
+      unsubTime();
+      unsubAbs();
+    };
+  }, [user, daycareId, date]);
 
-      cur.breakfasts += breakfasts;
-      cur.snacks += snacks;
-      cur.lunches += lunches;
-      cur.total += amount;
+  // live history for the open drawer
+  useEffect(() => {
+    if (!user || !daycareId || !historyKidId) return;
 
-      map.set(month, cur);
-    }
+    const histCol = collection(
+      db,
+      "daycares",
+      daycareId,
+      "records",
+      `${date}_${historyKidId}`,
+      "history"
+    );
+    return onSnapshot(query(histCol, orderBy("clientAt", "desc")), (snap) => {
+      setHistory(snap.docs.map((d) => ({ ...(d.data() as Omit<HistoryEntry, "id">), id: d.id })));
+    });
+  }, [user, daycareId, date, historyKidId]);
 
-    return Array.from(map.values())
-      .sort((a, b) => a.month.localeCompare(b.month))
-      .map((r) => ({ ...r, total: round2(r.total) }));
-  }, [records, ratesByYear]);
+  // Every record on hand, freshest source last: loaded range, open ones, the selected date
+  const recMap = useMemo(() => {
+    const m = new Map<string, RecordRow>();
+    for (const r of [...rangeRecords, ...openRecords, ...dayRecords]) m.set(r.id, r);
+    return m;
+  }, [rangeRecords, openRecords, dayRecords]);
 
-  const annualSummary = useMemo(() => {
-    type Row = {
-      year: number;
-      breakfasts: number;
-      snacks: number;
-      lunches: number;
-      total: number;
-      rateYearUsed: number;
-    };
+  // Children checked in right now (open records dated today, whatever date is on screen)
+  const presentNow = useMemo(() => {
+    const on = today(settings.timeZone);
+    return openRecords
+      .filter((r) => r.date === on)
+      .map((r) => ({ kidId: r.kidId, birthDate: kids.find((k) => k.id === r.kidId)?.birthDate }));
+  }, [openRecords, kids, settings.timeZone]);
 
-    const map = new Map<number, Row>();
+  const liveCount = headcount(presentNow, settings.ageGroups, today(settings.timeZone));
 
-    for (const r of records) {
-      const year = yearFromDate(r.date);
-      const rates = getRatesForYear(year);
+  const absenceMap = useMemo(() => new Map(dayAbsences.map((a) => [a.id, a])), [dayAbsences]);
 
-      const breakfasts = r.breakfast || 0;
-      const snacks = (r.amSnack || 0) + (r.pmSnack || 0);
-      const lunches = r.lunch || 0;
+  const closureMap = useMemo(() => new Map(closures.map((c) => [c.date, c])), [closures]);
+  const dayClosingTime = closingTimeOn(closureMap, date, settings.closingTime);
 
-      const amount =
-        breakfasts * (rates.breakfast || 0) +
-        snacks * (rates.snack || 0) +
-        lunches * (rates.lunch || 0);
+  const activeStaff = staffRoster.filter((m) => m.active);
+  const timeMap = useMemo(() => {
+    const m = new Map<string, TimeRecord>();
+    for (const t of [...openTime, ...dayTime]) m.set(t.id, t);
+    return m;
+  }, [openTime, dayTime]);
+  const clockedIn = openTime.filter((t) => t.date === today(settings.timeZone));
 
-      const cur = map.get(year) || {
-        year,
-        breakfasts: 0,
-        snacks: 0,
-        lunches: 0,
-        total: 0,
-        rateYearUsed: rates.year,
-      };
+  // Once there's a roster, the time clock says who is on duty
+  const staffOnDuty = activeStaff.length ? clockedIn.length : manualStaffOnDuty;
 
-      cur.breakfasts += breakfasts;
-      cur.snacks += snacks;
-      cur.lunches += lunches;
-      cur.total += amount;
-      cur.rateYearUsed = rates.year;
+  // Check-ins/outs that landed on the neighbouring day before the time zone fix
+  // (among the records loaded for reports)
+  const shiftedRecords = useMemo(
+    () =>
+      rangeRecords.flatMap((r) => {
+        if (!(r.updatedAt instanceof Timestamp)) return [];
+        const toDate = shiftedRecordDate(r, r.updatedAt.toDate(), settings.timeZone);
+        return toDate ? [{ record: r, toDate }] : [];
+      }),
+    [rangeRecords, settings.timeZone]
+  );
+
+  // Alert and return true when the signed-in role may not do this
+  function denied(allowed: boolean, what: string) {
+    if (allowed) return false;
+    alert(`Your role (${role ? ROLE_LABELS[role] : "no access"}) can't ${what}.`);
+    return true;
+  }
+
+  const lockedMonths = useMemo(
+    () => new Set(monthLocks.filter((l) => l.locked).map((l) => l.month)),
+    [monthLocks]
+  );
+
+  // Staff may change today's (and future) records; only owners change the past.
+  // Nobody changes a closed month until an owner reopens it.
+  const canEditOn = (d: string) =>
+    !lockedMonths.has(monthFromDate(d)) && (d < today(settings.timeZone) ? can.editPast : can.editToday);
 
-      map.set(year, cur);
+  // denied() for record edits, with a clearer message when the month is closed
+  function blockedOn(d: string, what: string) {
+    if (lockedMonths.has(monthFromDate(d))) {
+      alert(`${monthFromDate(d)} is closed for its claim. An owner must reopen it first.`);
+      return true;
     }
+    return denied(canEditOn(d), what);
+  }
 
-    return Array.from(map.values())
-      .sort((a, b) => a.year - b.year)
-      .map((r) => ({ ...r, total: round2(r.total) }));
-  }, [records, ratesByYear]);
+  async function inviteStaff() {
+    if (denied(can.manageStaff, "invite staff")) return;
+    if (!user) return;
+    const email = inviteEmail.trim().toLowerCase();
+    if (!/^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(email)) {
+      alert("Please enter a valid email address.");
+      return;
+    }
+    if (members.some((m) => m.email.toLowerCase() === email)) {
+      alert(`${email} is already a member.`);
+      return;
+    }
 
-  function exportExcel() {
-    const recordsWithReimb = records.map((r) => {
-      const y = yearFromDate(r.date);
-      const rates = getRatesForYear(y);
-      const breakfasts = r.breakfast || 0;
-      const snacks = (r.amSnack || 0) + (r.pmSnack || 0);
-      const lunches = r.lunch || 0;
-
-      const reimbursement =
-        breakfasts * (rates.breakfast || 0) +
-        snacks * (rates.snack || 0) +
-        lunches * (rates.lunch || 0);
+    const invite: Invite = {
+      email,
+      daycareId,
+      role: inviteRole,
+      invitedBy: user.uid,
+      createdAt: serverTimestamp(),
+    };
+    try {
+      await setDoc(doc(db, "invites", email), invite);
+      setInviteEmail("");
+    } catch (e) {
+      console.error("INVITE FAILED:", e);
+      alert("Invite failed. See console for error.");
+    }
+  }
 
-      return {
-        ...r,
-        snacks,
-        reimbursement: round2(reimbursement),
-        rateYearUsed: rates.year,
-      };
-    });
+  async function revokeInvite(email: string) {
+    if (denied(can.manageStaff, "manage staff")) return;
+    try {
+      await deleteDoc(doc(db, "invites", email));
+    } catch (e) {
+      console.error("REVOKE INVITE FAILED:", e);
+      alert("Revoking the invite failed. See console for error.");
+    }
+  }
 
-    const ws1 = XLSX.utils.json_to_sheet(recordsWithReimb);
-    const ws2 = XLSX.utils.json_to_sheet(monthlySummary);
-    const ws3 = XLSX.utils.json_to_sheet(annualSummary);
+  async function setMemberRole(m: Member, next: Role | null) {
+    if (denied(can.manageStaff, "manage staff")) return;
+    if (m.uid === user?.uid) {
+      alert("You can't change your own role.");
+      return;
+    }
+    if (next === null && !confirm(`Remove ${m.email} from this daycare?`)) return;
 
-    const wb = XLSX.utils.book_new();
-    XLSX.utils.book_append_sheet(wb, ws1, "Records");
-    XLSX.utils.book_append_sheet(wb, ws2, "Monthly Summary");
-    XLSX.utils.book_append_sheet(wb, ws3, "Annual Summary");
-    XLSX.writeFile(wb, "daycare.xlsx");
+    try {
+      const ref = doc(db, "daycares", daycareId, "members", m.uid);
+      if (next === null) await deleteDoc(ref);
+      else await updateDoc(ref, { role: next });
+    } catch (e) {
+      console.error("UPDATE MEMBER FAILED:", e);
+      alert("Updating staff failed. See console for error.");
+    }
   }
 
-  const todaysKids = useMemo(() => kids.filter((k) => k.active), [kids]);
+  async function addKid() {
+    if (denied(can.editProfiles, "add children")) return;
+    if (!user) return;
+    const name = newKid.trim();
+    if (!name) return;
 
-  const recMap = useMemo(() => {
-    const m = new Map<string, RecordRow>();
-    for (const r of records) m.set(r.id, r);
-    return m;
-  }, [records]);
+    const id = crypto.randomUUID();
+    const kid: Kid = { id, name, active: true };
+    await setDoc(doc(db, "daycares", daycareId, "kids", id), kid);
+    setNewKid("");
+  }
 
-  if (!user) {
-    return (
-      <div style={{ padding: 20, fontFamily: "sans-serif", background: COLORS.bgPage, minHeight: "100vh" }}>
-        <h2 style={{ color: COLORS.header }}>Daycare Check-In</h2>
-        <button style={buttonStyle("primary")} onClick={() => signInWithPopup(auth, provider)}>
-          Sign in with Google
-        </button>
-      </div>
-    );
+  async function createFamily(name: string) {
+    if (denied(can.editProfiles, "create families")) return null;
+    const trimmed = name.trim();
+    if (!trimmed) return null;
+    if (families.some((f) => f.name.toLowerCase() === trimmed.toLowerCase())) {
+      alert(`A family named "${trimmed}" already exists.`);
+      return null;
+    }
+
+    const family: Family = { id: crypto.randomUUID(), name: trimmed };
+    try {
+      await setDoc(doc(db, "daycares", daycareId, "families", family.id), family);
+      return family.id;
+    } catch (e) {
+      console.error("CREATE FAMILY FAILED:", e);
+      alert("Creating the family failed. See console for error.");
+      return null;
+    }
   }
 
-  return (
-    <div
-      style={{
-        padding: 20,
-        fontFamily: "sans-serif",
-        background: COLORS.bgPage,
-        minHeight: "100vh",
+  async function renameFamily(family: Family) {
+    if (denied(can.editProfiles, "rename families")) return;
+    const name = prompt("Family name:", family.name)?.trim();
+    if (!name || name === family.name) return;
+    try {
+      await updateDoc(doc(db, "daycares", daycareId, "families", family.id), { name });
+    } catch (e) {
+      console.error("RENAME FAMILY FAILED:", e);
+      alert("Renaming the family failed. See console for error.");
+    }
+  }
+
+  // Children stay; they just no longer belong to a family
+  async function deleteFamily(family: Family) {
+    if (denied(can.manageKids, "delete families")) return;
+    const members = kids.filter((k) => k.familyId === family.id);
+    const ok = confirm(`Delete the ${family.name} family? ${members.length} child(ren) will be unlinked.`);
+    if (!ok) return;
+    try {
+      const batch = writeBatch(db);
+      for (const k of members) batch.update(doc(db, "daycares", daycareId, "kids", k.id), { familyId: "" });
+      batch.delete(doc(db, "daycares", daycareId, "families", family.id));
+      await batch.commit();
+    } catch (e) {
+      console.error("DELETE FAMILY FAILED:", e);
+      alert("Deleting the family failed. See console for error.");
+    }
+  }
+
+  // One tap for siblings: each child still gets their own record
+  async function checkInSiblings(members: Kid[]) {
+    if (!arrivalAllows(members, date, false)) return;
+    for (const kid of members) await checkIn(kid, undefined, date, true);
+  }
+
+  async function checkOutSiblings(members: Kid[]) {
+    for (const kid of members) await checkOut(kid);
+  }
+
+  function openProfile(kid: Kid) {
+    setProfileDraft({
+      ...kid,
+      birthDate: kid.birthDate ?? "",
+      enrollStart: kid.enrollStart ?? "",
+      enrollEnd: kid.enrollEnd ?? "",
+      guardians: (kid.guardians ?? []).map((g) => ({ ...g, pinOf: g.name })),
+      familyId: kid.familyId ?? "",
+      dietaryNotes: kid.dietaryNotes ?? "",
+      notes: kid.notes ?? "",
+      schedule: kid.schedule ?? {},
+      allergiesText: (kid.allergies ?? []).join(", "),
+    });
+    setRenameValue(kid.name);
+    setProfileStatus("");
+  }
+
+  function setGuardianField(idx: number, field: keyof KidProfileDraft["guardians"][number], value: string) {
+    if (!profileDraft) return;
+    setProfileDraft({
+      ...profileDraft,
+      guardians: (profileDraft.guardians ?? []).map((g, j) => (j === idx ? { ...g, [field]: value } : g)),
+    });
+  }
+
+  async function saveProfile() {
+    if (denied(can.editProfiles, "edit child profiles")) return;
+    if (!user || !profileDraft) return;
+
+    // New kiosk PINs: 4–6 digits, hashed before they leave this device.
+    // Siblings in one family may share a PIN; other families may not.
+    const pinsRef = doc(db, "daycares", daycareId, "kioskPins", profileDraft.id);
+    const sameFamily = (kidId: string) =>
+      kidId === profileDraft.id ||
+      (!!profileDraft.familyId && kids.find((k) => k.id === kidId)?.familyId === profileDraft.familyId);
+    const guardians: Guardian[] = [];
+    const entries: KioskPins["entries"] = [];
+    try {
+      const stored = await getDoc(pinsRef);
+      const storedEntries = stored.exists() ? (stored.data() as KioskPins).entries : [];
+      for (const { pin, pinOf, ...g } of profileDraft.guardians) {
+        if (!pin?.trim()) {
+          const kept = g.hasPin ? storedEntries.find((e) => e.guardian === pinOf) : undefined;
+          if (kept && g.name.trim()) entries.push({ guardian: g.name.trim(), pinKey: kept.pinKey });
+          guardians.push({ ...g, hasPin: !!kept });
+          continue;
+        }
+        if (!/^\d{4,6}$/.test(pin.trim())) {
+          alert(`${g.name || "Guardian"}: the kiosk PIN must be 4 to 6 digits.`);
+          return;
+        }
+        const key = await pinKey(daycareId, pin.trim());
+        const taken = await getDocs(
+          query(collection(db, "daycares", daycareId, "kioskPins"), where("pinKeys", "array-contains", key))
+        );
+        const legacy = kids.flatMap((k) =>
+          sameFamily(k.id) ? [] : (k.guardians ?? []).map((o) => ({ kidId: k.id, guardian: o }))
+        );
+        const legacyHits = await Promise.all(legacy.map((o) => legacyPinMatches(o.guardian, pin.trim())));
+        const clashId =
+          taken.docs.map((d) => (d.data() as KioskPins).kidId).find((id) => !sameFamily(id)) ??
+          legacy.find((_, i) => legacyHits[i])?.kidId;
+        if (clashId) {
+          const other = kids.find((k) => k.id === clashId)?.name ?? "another child";
+          alert(`That PIN is already used by another family (${other}). Please choose a different one.`);
+          return;
+        }
+        if (g.name.trim()) entries.push({ guardian: g.name.trim(), pinKey: key });
+        guardians.push({ ...g, hasPin: true, pinHash: undefined, pinSalt: undefined });
+      }
+    } catch (e) {
+      console.error("CHECK KIOSK PIN FAILED:", e);
+      alert("Checking kiosk PINs failed. See console for error.");
+      return;
+    }
+
+    const { allergiesText, ...rest } = { ...profileDraft, guardians };
+    const kid: Kid = {
+      ...rest,
+      guardians: (rest.guardians ?? [])
+        .map((g) => ({
+          name: g.name.trim(),
+          relationship: g.relationship.trim(),
+          phone: g.phone.trim(),
+          email: g.email.trim(),
+          ...(g.hasPin && { hasPin: true }),
+          ...(g.pinHash && g.pinSalt && { pinHash: g.pinHash, pinSalt: g.pinSalt }),
+        }))
+        .filter((g) => g.name),
+      allergies: allergiesText
+        .split(",")
+        .map((a) => a.trim())
+        .filter(Boolean),
+      dietaryNotes: (rest.dietaryNotes ?? "").trim(),
+      notes: (rest.notes ?? "").trim(),
+    };
+
+    for (const [label, d] of [
+      ["Date of birth", kid.birthDate],
+      ["Enrollment start", kid.enrollStart],
+      ["Enrollment end", kid.enrollEnd],
+    ] as const) {
+      if (d && !isValidDate(d)) {
+        alert(`${label} must be blank or a valid date.`);
+        return;
+      }
+    }
+    if (kid.enrollStart && kid.enrollEnd && kid.enrollEnd < kid.enrollStart) {
+      alert("Enrollment end cannot be before enrollment start.");
+      return;
+    }
+    if (kid.birthDate && kid.birthDate > today(settings.timeZone)) {
+      alert("Date of birth cannot be in the future.");
+      return;
+    }
+    const scheduleProblem = validateSchedule(kid.schedule ?? {});
+    if (scheduleProblem) {
+      alert(`Expected schedule — ${scheduleProblem}`);
+      return;
+    }
+    const plan = kid.tuition;
+    if (plan && (!Number.isFinite(plan.rate) || plan.rate < 0)) {
+      alert("Tuition rate must be a non-negative number.");
+      return;
+    }
+    if (plan && (!Number.isFinite(plan.discountPct) || plan.discountPct < 0 || plan.discountPct > 100)) {
+      alert("Discount must be between 0 and 100%.");
+      return;
+    }
+
+    // A new usual week applies from today, so past days keep the week they had
+    const before = kids.find((k) => k.id === kid.id);
+    const weekKey = (w?: ExpectedSchedule) => JSON.stringify(Object.entries(w ?? {}).sort());
+    let scheduleHistory = before?.scheduleHistory;
+    if (weekKey(before?.schedule) !== weekKey(kid.schedule)) {
+      const on = today(settings.timeZone);
+      const earlier = scheduleHistory?.length
+        ? scheduleHistory
+        : [{ effectiveFrom: "", schedule: before?.schedule ?? {} }];
+      scheduleHistory = [
+        ...earlier.filter((v) => v.effectiveFrom !== on),
+        { effectiveFrom: on, schedule: kid.schedule ?? {} },
+      ];
+    }
+
+    // A new plan applies from a date, so months already billed keep their price
+    const samePlan = (a?: TuitionPlan | null, b?: TuitionPlan | null) =>
+      a?.kind === b?.kind && a?.rate === b?.rate && a?.discountPct === b?.discountPct;
+    let tuitionHistory = before?.tuitionHistory;
+    if (can.manageBilling && !samePlan(before?.tuition, plan)) {
+      const from = prompt("The new tuition applies from (YYYY-MM-DD):", today(settings.timeZone))?.trim();
+      if (from === undefined) return;
+      if (!isValidDate(from)) {
+        alert("Please enter a valid date.");
+        return;
+      }
+      const earlier = tuitionHistory?.length
+        ? tuitionHistory
+        : [{ effectiveFrom: "", plan: before?.tuition ?? null }];
+      tuitionHistory = [
+        ...earlier.filter((v) => v.effectiveFrom !== from),
+        { effectiveFrom: from, plan: plan ?? null },
+      ].sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom));
+    }
+
+    setProfileStatus("Saving…");
+    try {
+      // Name and active flag have their own flows (rename, deactivate/reactivate)
+      const batch = writeBatch(db);
+      batch.update(
+        doc(db, "daycares", daycareId, "kids", kid.id),
+        stripUndefined({
+          birthDate: kid.birthDate,
+          enrollStart: kid.enrollStart,
+          enrollEnd: kid.enrollEnd,
+          familyId: kid.familyId ?? "",
+          schedule: kid.schedule ?? {},
+          scheduleHistory,
+          // Only owners set what families pay
+          ...(can.manageBilling && { tuition: kid.tuition ?? null, tuitionHistory }),
+          guardians: kid.guardians,
+          allergies: kid.allergies,
+          dietaryNotes: kid.dietaryNotes,
+          notes: kid.notes,
+        })
+      );
+      if (entries.length) batch.set(pinsRef, { kidId: kid.id, entries, pinKeys: entries.map((e) => e.pinKey) });
+      else batch.delete(pinsRef);
+      await batch.commit();
+      setProfileStatus("Saved ✓");
+      setTimeout(() => setProfileStatus(""), 1500);
+    } catch (e) {
+      console.error("SAVE PROFILE FAILED:", e);
+      setProfileStatus("");
+      alert("Saving profile failed. See console for error.");
+    }
+  }
+
+  // Deactivate kid (hide from list, keep history)
+  async function deactivateKid(kid: Kid) {
+    if (denied(can.manageKids, "deactivate children")) return;
+    if (!user) return;
+
+    const ok = confirm(
+      `Deactivate ${kid.name}? They will be hidden from the list, but history will remain.`
+    );
+    if (!ok) return;
+
+    const ref = doc(db, "daycares", daycareId, "kids", kid.id);
+    await updateDoc(ref, { active: false });
+  }
+
+  async function reactivateKid(kid: Kid) {
+    if (denied(can.manageKids, "reactivate children")) return;
+    if (!user) return;
+    try {
+      await updateDoc(doc(db, "daycares", daycareId, "kids", kid.id), { active: true });
+    } catch (e) {
+      console.error("REACTIVATE FAILED:", e);
+      alert("Reactivate failed. See console for error.");
+    }
+  }
+
+  // Rename; past records keep their kidName unless `updateRecords` is set
+  async function renameKid(kid: Kid, newName: string, updateRecords: boolean) {
+    if (denied(can.manageKids, "rename children")) return;
+    if (!user) return;
+    const name = newName.trim();
+    if (!name || name === kid.name) return;
+
+    try {
+      setProfileStatus("Renaming…");
+      // Closed months keep the name they were claimed under
+      const affected = updateRecords
+        ? (await fetchKidRecords(daycareId, kid.id)).filter(
+            (r) => r.kidName !== name && !lockedMonths.has(monthFromDate(r.date))
+          )
+        : [];
+      const ops: BatchOp[] = [
+        (b) => b.update(doc(db, "daycares", daycareId, "kids", kid.id), { name }),
+        ...affected.map(
+          (r): BatchOp =>
+            (b) => b.update(doc(db, "daycares", daycareId, "records", r.id), { kidName: name })
+        ),
+      ];
+      await commitInChunks(ops);
+
+      setProfileDraft((d) => (d && d.id === kid.id ? { ...d, name } : d));
+      setProfileStatus(updateRecords ? `Renamed, ${affected.length} record(s) updated ✓` : "Renamed ✓");
+      setTimeout(() => setProfileStatus(""), 2500);
+    } catch (e) {
+      console.error("RENAME FAILED:", e);
+      setProfileStatus("");
+      alert("Rename failed. See console for error.");
+    }
+  }
+
+  // Permanently delete an inactive child and all their records (after exporting them)
+  async function hardDeleteKid(kid: Kid) {
+    if (denied(can.manageKids, "delete children")) return;
+    if (!user) return;
+
+    let kidRecords: RecordRow[];
+    try {
+      kidRecords = await fetchKidRecords(daycareId, kid.id);
+    } catch (e) {
+      console.error("LOAD RECORDS FAILED:", e);
+      alert("Loading records failed. See console for error.");
+      return;
+    }
+    const closed = [...new Set(kidRecords.map((r) => monthFromDate(r.date)))].filter((m) => lockedMonths.has(m));
+    if (closed.length) {
+      alert(`${kid.name} has records in closed months (${closed.join(", ")}). Reopen them before deleting.`);
+      return;
+    }
+    const typed = prompt(
+      `Permanently delete ${kid.name} and ${kidRecords.length} attendance record(s)? ` +
+        `Their records will be downloaded first. This cannot be undone.\n\nType the child's name to confirm:`
+    );
+    if (typed == null) return;
+    if (typed.trim() !== kid.name) {
+      alert("Name did not match. Nothing was deleted.");
+      return;
+    }
+
+    try {
+      // Export first so nothing is lost if the delete goes through
+      const ws = XLSX.utils.json_to_sheet(
+        kidRecords.map((r) => ({
+          ...r,
+          segments: formatSegments(segmentsOf(r)),
+          mealOverrides: formatOverrides(r.mealOverrides),
+          signatures: formatSignatures(r.signatures),
+          updatedAt: undefined,
+        }))
+      );
+      const wb = XLSX.utils.book_new();
+      XLSX.utils.book_append_sheet(wb, ws, "Records");
+      XLSX.writeFile(wb, `${kid.name.replace(/[^\w-]+/g, "_")}-records.xlsx`);
+
+      setSaveStatus("Deleting…");
+      const ops: BatchOp[] = [];
+      for (const r of kidRecords) {
+        const hist = await getDocs(collection(db, "daycares", daycareId, "records", r.id, "history"));
+        for (const h of hist.docs) ops.push((b) => b.delete(h.ref));
+        ops.push((b) => b.delete(doc(db, "daycares", daycareId, "records", r.id)));
+      }
+      ops.push(...rollupOps(kidRecords.map((r) => [r, null])));
+      const absences = await getDocs(
+        query(collection(db, "daycares", daycareId, "absences"), where("kidId", "==", kid.id))
+      );
+      for (const a of absences.docs) ops.push((b) => b.delete(a.ref));
+      ops.push((b) => b.delete(doc(db, "daycares", daycareId, "kioskPins", kid.id)));
+      ops.push((b) => b.delete(doc(db, "daycares", daycareId, "kids", kid.id)));
+      await commitInChunks(ops);
+
+      setSaveStatus("Deleted ✓");
+      setTimeout(() => setSaveStatus(""), 1500);
+    } catch (e) {
+      console.error("HARD DELETE FAILED:", e);
+      setSaveStatus("");
+      alert("Delete failed. See console for error.");
+    }
+  }
+
+  // Update OR Insert record for this kid+date. `patch` may be a function of
+  // the stored record so segment changes are computed from fresh data.
+  async function upsertRecord(
+    kid: Kid,
+    action: HistoryAction,
+    patch: Partial<RecordRow> | ((base: RecordRow) => Partial<RecordRow>),
+    recordDate: string = date,
+    extra: BatchOp[] = []
+  ) {
+    if (!user) return;
+
+    const id = `${recordDate}_${kid.id}`;
+    const ref = doc(db, "daycares", daycareId, "records", id);
+
+    // The selected date's listener keeps its records current in the local
+    // cache, and a flaky network would stall a server read; other dates come
+    // from the server. Failing both, use whatever the listener last delivered.
+    let stored: RecordRow | undefined;
+    try {
+      const snap = await (recordDate === date ? getDocFromCache(ref).catch(() => getDoc(ref)) : getDoc(ref));
+      stored = snap.exists() ? (snap.data() as RecordRow) : undefined;
+    } catch {
+      stored = recMap.get(id);
+    }
+
+    const base: RecordRow = stored ?? emptyRecord(recordDate, kid);
+
+    const cleanedPatch: Partial<RecordRow> = stripUndefined(typeof patch === "function" ? patch(base) : patch);
+
+    let next: RecordRow = {
+      ...base,
+      ...cleanedPatch,
+      timeZone: settings.timeZone,
+      updatedAt: serverTimestamp(),
+    };
+    if (cleanedPatch.segments) next = withSegments(next, cleanedPatch.segments);
+
+    const merged: RecordRow = calcMeals(next, mealTimesForDate(mealSchedules, base.date));
+
+    // `rev` is incremented server-side while `baseRev` records what this
+    // device saw; the rules reject the write unless baseRev is the stored rev.
+    const data: DocumentData = {
+      ...stripUndefined(merged),
+      baseRev: base.rev ?? 0,
+      rev: increment(1),
+    };
+    const entry = historyEntry(user, id, action, stored ? snapshotOf(base) : null, merged, cleanedPatch.editReason ?? "");
+
+    // Keep the attempted version until the record batch lands (see ConflictCopy)
+    const copyRef = doc(collection(db, "daycares", daycareId, "conflicts"));
+    const copy = writeBatch(db);
+    copy.set(copyRef, stripUndefined({ ...entry, kidId: kid.id, date: recordDate, signatures: merged.signatures }));
+    queueBatch(copy, `Saving a change for ${kid.name} failed.`);
+
+    // Record write, immutable history entry and rollups go in together, so a
+    // rejected write leaves the totals alone
+    const batch = writeBatch(db);
+    batch.set(ref, data, { mergeFields: Object.keys(data) });
+    batch.set(historyRef(id), entry);
+    for (const op of [...rollupOps([[stored, merged]]), ...extra]) op(batch);
+    batch.delete(copyRef);
+    queueBatch(
+      batch,
+      `A change for ${kid.name} on ${recordDate} could not be applied, most likely because the record ` +
+        "changed on another device first. It is kept on the record for review."
+    );
+  }
+
+  // Firestore applies a batch to the local cache right away and replays it
+  // when the connection returns, so nothing waits for the server; a failure
+  // is reported whenever it comes back.
+  function queueBatch(batch: WriteBatch, failure: string) {
+    setPendingWrites((n) => n + 1);
+    setQueueDrained(false);
+    batch
+      .commit()
+      .catch((e) => {
+        console.error("QUEUED WRITE FAILED:", e);
+        alert(`${failure} See console for error.`);
+      })
+      .finally(() => setPendingWrites((n) => n - 1));
+    waitForPendingWrites(db)
+      .then(() => setQueueDrained(true))
+      .catch(() => {});
+  }
+
+  function historyRef(recordId: string) {
+    const col = collection(db, "daycares", daycareId, "records", recordId, "history");
+    return doc(col);
+  }
+
+  // Month and year rollup increments for a set of record writes; goes in the
+  // same batch. Staff may only step a rollup by what the named record and its
+  // rate period allow (firestore.rules), so both ride along.
+  function rollupOps(changes: Parameters<typeof rollupDeltas>[0]): BatchOp[] {
+    const [before, after] = changes[changes.length - 1] ?? [];
+    const last = after ?? before;
+    return [...rollupDeltas(changes, ratePeriods)].map(
+      ([key, d]): BatchOp =>
+        (b) =>
+          b.set(
+            doc(db, "daycares", daycareId, "rollups", key),
+            {
+              breakfasts: increment(d.breakfasts),
+              snacks: increment(d.snacks),
+              lunches: increment(d.lunches),
+              total: increment(d.total),
+              overriddenServed: increment(d.overriddenServed),
+              overriddenNotServed: increment(d.overriddenNotServed),
+              incompleteExcluded: increment(d.incompleteExcluded),
+              records: increment(d.records),
+              lastRecord: last?.id ?? "",
+              rateStart: last ? ratePeriodFor(ratePeriods, last.date).startDate : "",
+              updatedAt: serverTimestamp(),
+            },
+            { merge: true }
+          )
+    );
+  }
+
+  // Why checking `arriving` in now would break capacity or ratios, or null.
+  // Only today's check-ins count; corrections on other dates aren't headcount.
+  function capacityProblem(arriving: Kid[], on: string) {
+    if (on !== today(settings.timeZone)) return null;
+    const here = new Set(presentNow.map((p) => p.kidId));
+    const after = headcount(
+      [...presentNow, ...arriving.filter((k) => !here.has(k.id))],
+      settings.ageGroups,
+      on
+    );
+    const problems: string[] = [];
+    if (settings.licensedCapacity && after.total > settings.licensedCapacity) {
+      problems.push(`${after.total} children would be over the licensed capacity of ${settings.licensedCapacity}.`);
+    }
+    if (after.requiredStaff > staffOnDuty) {
+      problems.push(`Ratios would need ${after.requiredStaff} staff; ${staffOnDuty} on duty.`);
+    }
+    return problems.length ? problems.join(" ") : null;
+  }
+
+  // Staff may go ahead after a warning; the kiosk sends parents to staff instead
+  function arrivalAllows(arriving: Kid[], on: string, fromKiosk: boolean) {
+    const closure = closureMap.get(on);
+    const problem = isClosedOn(closureMap, on)
+      ? `${on} is marked ${CLOSURE_KIND_LABELS[closure!.kind].toLowerCase()}: ${closure!.label}.`
+      : capacityProblem(arriving, on);
+    if (!problem) return true;
+    if (fromKiosk) {
+      alert(`${problem}\n\nPlease see a staff member to check in.`);
+      return false;
+    }
+    return confirm(`${problem}\n\nCheck in anyway?`);
+  }
+
+  // Opens a new segment (a child can come and go several times a day)
+  // `signed` comes from the kiosk: the guardian's signature is kept on the record.
+  // Callers checking in several children at once pass `arrivalChecked`.
+  async function checkIn(kid: Kid, signed?: KioskSignature, on: string = date, arrivalChecked = false) {
+    if (denied(can.checkInOut, "check children in") || blockedOn(on, "check children in on this date")) return;
+    const notEnrolled = enrollmentProblem(kid, on);
+    if (notEnrolled) {
+      alert(notEnrolled);
+      return;
+    }
+    if (openSegment(recMap.get(`${on}_${kid.id}`))) {
+      alert(`${kid.name} is already checked in.`);
+      return;
+    }
+    if (segmentsOf(recMap.get(`${on}_${kid.id}`)).length >= MAX_SEGMENTS) {
+      alert(`${kid.name} already has ${MAX_SEGMENTS} check-ins on ${on}. Use Edit Times to combine them.`);
+      return;
+    }
+    if (!arrivalChecked && !arrivalAllows([kid], on, !!signed)) return;
+    // Arriving after all: the absence no longer applies, and goes in the record's batch
+    const absenceRef = doc(db, "daycares", daycareId, "absences", `${on}_${kid.id}`);
+    const clearAbsence: BatchOp[] = absenceMap.has(`${on}_${kid.id}`) ? [(b) => b.delete(absenceRef)] : [];
+    try {
+      const now = nowHHMM(settings.timeZone);
+      await upsertRecord(
+        kid,
+        "check-in",
+        (base) => {
+          const segs = segmentsOf(base);
+          return {
+            segments: segs.some((s) => !s.out) ? segs : [...segs, { in: now, out: "" }],
+            ...(signed && {
+              signatures: [...(base.signatures ?? []), { ...signed, kind: "in" as const, time: now }],
+            }),
+            source: "auto",
+            editedBy: user?.uid,
+            editReason: signed ? `Kiosk check-in, signed by ${signed.guardian}` : "Check-in button",
+          };
+        },
+        on,
+        clearAbsence
+      );
+    } catch (e) {
+      console.error("CHECK IN FAILED:", e);
+      alert("Check-in failed. See console for error.");
+    }
+  }
+
+  // Closes the open segment
+  async function checkOut(kid: Kid, signed?: KioskSignature, on: string = date) {
+    if (denied(can.checkInOut, "check children out") || blockedOn(on, "check children out on this date")) return;
+    if (!openSegment(recMap.get(`${on}_${kid.id}`))) {
+      alert(`${kid.name} is not checked in.`);
+      return;
+    }
+    try {
+      const now = nowHHMM(settings.timeZone);
+      await upsertRecord(
+        kid,
+        "check-out",
+        (base) => ({
+          segments: closeOpenSegments(segmentsOf(base), now),
+          ...(signed && {
+            signatures: [...(base.signatures ?? []), { ...signed, kind: "out" as const, time: now }],
+          }),
+          source: "auto",
+          editedBy: user?.uid,
+          editReason: signed ? `Kiosk check-out, signed by ${signed.guardian}` : "Check-out button",
+        }),
+        on
+      );
+    } catch (e) {
+      console.error("CHECK OUT FAILED:", e);
+      alert("Check-out failed. See console for error.");
+    }
+  }
+
+  // End-of-day: close every open segment on the selected date at `at`
+  async function checkOutAllAt(kidsToClose: Kid[], at: string) {
+    if (blockedOn(date, "change records on this date")) return;
+    if (!isValidHHMM(at)) {
+      alert("Please enter a valid check-out time (HH:MM).");
+      return;
+    }
+    const ok = confirm(`Check out ${kidsToClose.length} child(ren) at ${at}?`);
+    if (!ok) return;
+
+    try {
+      setSaveStatus("Checking out…");
+      for (const kid of kidsToClose) {
+        await upsertRecord(kid, "reconcile", (base) => ({
+          segments: closeOpenSegments(segmentsOf(base), at),
+          source: "manual",
+          editedBy: user?.uid,
+          editReason: `End-of-day reconciliation (checked out at ${at})`,
+        }));
+      }
+      setSaveStatus("Checked out ✓");
+      setTimeout(() => setSaveStatus(""), 1500);
+    } catch (e) {
+      console.error("RECONCILE FAILED:", e);
+      setSaveStatus("");
+      alert("Check-out failed. See console for error.");
+    }
+  }
+
+  // Apply a rejected write over the current record; the copy goes with it
+  async function applyConflictCopy(kid: Kid, copy: ConflictCopy) {
+    if (blockedOn(copy.date, "change records on this date")) return;
+    const copyRef = doc(db, "daycares", daycareId, "conflicts", copy.id);
+    try {
+      await upsertRecord(
+        kid,
+        "resolve-conflict",
+        {
+          ...snapshotPatch(copy.after),
+          signatures: copy.signatures,
+          source: "manual",
+          editedBy: user?.uid,
+          editReason: `Applied a change by ${copy.byEmail} that had conflicted`,
+        },
+        copy.date,
+        [(b) => b.delete(copyRef)]
+      );
+    } catch (e) {
+      console.error("RESOLVE CONFLICT FAILED:", e);
+      alert("Saving failed. See console for error.");
+    }
+  }
+
+  async function discardConflictCopy(copy: ConflictCopy) {
+    if (blockedOn(copy.date, "change records on this date")) return;
+    if (!confirm(`Discard the change by ${copy.byEmail}? The record stays as it is.`)) return;
+    const batch = writeBatch(db);
+    batch.delete(doc(db, "daycares", daycareId, "conflicts", copy.id));
+    queueBatch(batch, "Discarding the change failed.");
+  }
+
+  async function saveClosingTime(value: string) {
+    if (denied(can.editSettings, "change settings")) return;
+    if (!user) return;
+    if (!isValidHHMM(value)) {
+      alert("Please enter a valid closing time (HH:MM).");
+      return;
+    }
+    // Late fees for days before today keep the closing time they had
+    const on = today(settings.timeZone);
+    const earlier = settings.closingTimes?.length
+      ? settings.closingTimes
+      : [{ effectiveFrom: "", closingTime: settings.closingTime }];
+    const closingTimes = [...earlier.filter((v) => v.effectiveFrom !== on), { effectiveFrom: on, closingTime: value }];
+    try {
+      await setDoc(
+        doc(db, "daycares", daycareId, "settings", "config"),
+        { closingTime: value, closingTimes },
+        { merge: true }
+      );
+    } catch (e) {
+      console.error("SAVE CLOSING TIME FAILED:", e);
+      alert("Saving closing time failed. See console for error.");
+    }
+  }
+
+  async function saveOpenWeekdays(day: number, open: boolean) {
+    if (denied(can.editSettings, "change settings")) return;
+    const openWeekdays = [...settings.openWeekdays.filter((d) => d !== day), ...(open ? [day] : [])].sort(
+      (a, b) => a - b
+    );
+    try {
+      await setDoc(doc(db, "daycares", daycareId, "settings", "config"), { openWeekdays }, { merge: true });
+    } catch (e) {
+      console.error("SAVE OPEN DAYS FAILED:", e);
+      alert("Saving open days failed. See console for error.");
+    }
+  }
+
+  async function saveClosure() {
+    if (denied(can.editSettings, "change the closure calendar")) return;
+    const c: Closure = {
+      ...closureDraft,
+      label: closureDraft.label.trim(),
+      closingTime: closureDraft.kind === "early-dismissal" ? closureDraft.closingTime : "",
+    };
+    const problem = validateClosure(c);
+    if (problem) {
+      alert(problem);
+      return;
+    }
+    if (closureMap.has(c.date) && !confirm(`${c.date} is already on the calendar. Replace it?`)) return;
+    const here = [...recMap.values()].filter((r) => r.date === c.date && segmentsOf(r).length).length;
+    if (isClosedOn(new Map([[c.date, c]]), c.date) && here > 0) {
+      if (!confirm(`${here} child(ren) already have attendance on ${c.date}. Mark it closed anyway?`)) return;
+    }
+    try {
+      await setDoc(doc(db, "daycares", daycareId, "settings", "config", "closures", c.date), c);
+      setClosureDraft({ ...closureDraft, date: "", label: "" });
+    } catch (e) {
+      console.error("SAVE CLOSURE FAILED:", e);
+      alert("Saving the closure failed. See console for error.");
+    }
+  }
+
+  async function deleteClosure(c: Closure) {
+    if (denied(can.editSettings, "change the closure calendar")) return;
+    if (!confirm(`Remove ${c.label} (${c.date}) from the calendar?`)) return;
+    try {
+      await deleteDoc(doc(db, "daycares", daycareId, "settings", "config", "closures", c.date));
+    } catch (e) {
+      console.error("DELETE CLOSURE FAILED:", e);
+      alert("Removing the closure failed. See console for error.");
+    }
+  }
+
+  function updateStaffOnDuty(n: number) {
+    const next = Math.max(0, Math.floor(n) || 0);
+    localStorage.setItem(STAFF_ON_DUTY_KEY, String(next));
+    setManualStaffOnDuty(next);
+  }
+
+  async function saveLicensedCapacity(value: number) {
+    if (denied(can.editSettings, "change settings")) return;
+    if (!Number.isInteger(value) || value < 0) {
+      alert("Licensed capacity must be a whole number (0 = not set).");
+      return;
+    }
+    try {
+      await setDoc(doc(db, "daycares", daycareId, "settings", "config"), { licensedCapacity: value }, { merge: true });
+    } catch (e) {
+      console.error("SAVE CAPACITY FAILED:", e);
+      alert("Saving capacity failed. See console for error.");
+    }
+  }
+
+  function setRatioField(idx: number, field: keyof AgeGroup, value: string) {
+    if (!ratioDraft) return;
+    const parsed =
+      field === "label" ? value : field === "maxMonths" && value.trim() === "" ? null : Number(value);
+    setRatioDraft(ratioDraft.map((g, j) => (j === idx ? { ...g, [field]: parsed } : g)));
+  }
+
+  async function saveAgeGroups() {
+    if (denied(can.editSettings, "change settings")) return;
+    if (!ratioDraft) return;
+    const groups = ratioDraft.map((g, i) => ({
+      label: g.label.trim(),
+      maxMonths: i === ratioDraft.length - 1 ? null : g.maxMonths,
+      childrenPerStaff: g.childrenPerStaff,
+    }));
+    const problem = validateAgeGroups(groups);
+    if (problem) {
+      alert(problem);
+      return;
+    }
+    try {
+      await setDoc(doc(db, "daycares", daycareId, "settings", "config"), { ageGroups: groups }, { merge: true });
+      setRatioDraft(null);
+    } catch (e) {
+      console.error("SAVE RATIOS FAILED:", e);
+      alert("Saving ratios failed. See console for error.");
+    }
+  }
+
+  async function markAbsent(kid: Kid, reason: AbsenceReason) {
+    const allowed = can.checkInOut && (date < today(settings.timeZone) ? can.editPast : can.editToday);
+    if (denied(allowed, "record absences on this date")) return;
+    if (!user) return;
+    if (segmentsOf(recMap.get(`${date}_${kid.id}`)).length) {
+      alert(`${kid.name} has attendance on ${date}. Clear the times first.`);
+      return;
+    }
+    const absence: Absence = {
+      id: `${date}_${kid.id}`,
+      date,
+      kidId: kid.id,
+      kidName: kid.name,
+      reason,
+      by: user.uid,
+      byEmail: user.email ?? "",
+      at: serverTimestamp(),
+    };
+    try {
+      await setDoc(doc(db, "daycares", daycareId, "absences", absence.id), absence);
+    } catch (e) {
+      console.error("MARK ABSENT FAILED:", e);
+      alert("Marking the absence failed. See console for error.");
+    }
+  }
+
+  async function clearAbsence(kid: Kid) {
+    const allowed = can.checkInOut && (date < today(settings.timeZone) ? can.editPast : can.editToday);
+    if (denied(allowed, "record absences on this date")) return;
+    try {
+      await deleteDoc(doc(db, "daycares", daycareId, "absences", `${date}_${kid.id}`));
+    } catch (e) {
+      console.error("CLEAR ABSENCE FAILED:", e);
+      alert("Clearing the absence failed. See console for error.");
+    }
+  }
+
+  async function saveArrivalGrace(value: number) {
+    if (denied(can.editSettings, "change settings")) return;
+    if (!Number.isInteger(value) || value < 0) {
+      alert("Arrival grace must be a whole number of minutes.");
+      return;
+    }
+    try {
+      await setDoc(doc(db, "daycares", daycareId, "settings", "config"), { arrivalGraceMin: value }, { merge: true });
+    } catch (e) {
+      console.error("SAVE ARRIVAL GRACE FAILED:", e);
+      alert("Saving arrival grace failed. See console for error.");
+    }
+  }
+
+  async function addStaffMember() {
+    if (denied(can.manageStaff, "manage the staff roster")) return;
+    const name = newStaffName.trim();
+    if (!name) return;
+    if (staffRoster.some((m) => m.name.toLowerCase() === name.toLowerCase())) {
+      alert(`${name} is already on the roster.`);
+      return;
+    }
+    const member: StaffMember = { id: crypto.randomUUID(), name, active: true };
+    try {
+      await setDoc(doc(db, "daycares", daycareId, "staff", member.id), member);
+      setNewStaffName("");
+    } catch (e) {
+      console.error("ADD STAFF FAILED:", e);
+      alert("Adding staff failed. See console for error.");
+    }
+  }
+
+  async function setStaffActive(m: StaffMember, active: boolean) {
+    if (denied(can.manageStaff, "manage the staff roster")) return;
+    if (!active && openTime.some((t) => t.staffId === m.id)) {
+      alert(`${m.name} is still clocked in. Clock them out first.`);
+      return;
+    }
+    try {
+      await updateDoc(doc(db, "daycares", daycareId, "staff", m.id), { active });
+    } catch (e) {
+      console.error("UPDATE STAFF FAILED:", e);
+      alert("Updating staff failed. See console for error.");
+    }
+  }
+
+  // Same shape as upsertRecord: fresh read, then the time record and its
+  // history entry in one batch
+  async function upsertTimeRecord(
+    m: StaffMember,
+    action: TimeHistoryEntry["action"],
+    segmentsFor: (current: Segment[]) => Segment[],
+    reason: string,
+    on: string,
+    extra: BatchOp[] = []
+  ) {
+    if (!user) return;
+
+    const id = `${on}_${m.id}`;
+    const ref = doc(db, "daycares", daycareId, "timeRecords", id);
+    // Listened-to time records (the selected date, open shifts) are current
+    // in the cache; see upsertRecord
+    let stored: TimeRecord | undefined;
+    try {
+      const listened = timeMap.has(id) || on === date;
+      const snap = await (listened ? getDocFromCache(ref).catch(() => getDoc(ref)) : getDoc(ref));
+      stored = snap.exists() ? (snap.data() as TimeRecord) : undefined;
+    } catch {
+      stored = timeMap.get(id);
+    }
+
+    const before = stored ? segmentsOf(stored) : null;
+    const next = withSegments<TimeRecord>(
+      {
+        ...(stored ?? { id, date: on, staffId: m.id, staffName: m.name }),
+        source: action === "manual-edit" ? "manual" : "auto",
+        editedBy: user.uid,
+        editReason: reason,
+        updatedAt: serverTimestamp(),
+      },
+      segmentsFor(before ?? [])
+    );
+
+    const data: DocumentData = { ...stripUndefined(next), baseRev: stored?.rev ?? 0, rev: increment(1) };
+    const entry = timeHistoryEntry(user, id, action, before, segmentsOf(next), reason);
+
+    const copyRef = doc(collection(db, "daycares", daycareId, "timeConflicts"));
+    const copy = writeBatch(db);
+    copy.set(copyRef, { ...entry, staffId: m.id, date: on });
+    queueBatch(copy, `Saving a time clock change for ${m.name} failed.`);
+
+    const batch = writeBatch(db);
+    batch.set(ref, data, { mergeFields: Object.keys(data) });
+    batch.set(doc(collection(ref, "history")), entry);
+    for (const op of extra) op(batch);
+    batch.delete(copyRef);
+    queueBatch(
+      batch,
+      `A time clock change for ${m.name} on ${on} could not be applied, most likely because it ` +
+        "changed on another device first. It is kept on the time clock for review."
+    );
+  }
+
+  // Apply a rejected time clock write over the current shifts; the copy goes with it
+  async function applyTimeConflictCopy(m: StaffMember, copy: TimeConflictCopy) {
+    const allowed = copy.date < today(settings.timeZone) ? can.editPast : can.editToday;
+    if (denied(allowed, "edit time records on this date")) return;
+    const copyRef = doc(db, "daycares", daycareId, "timeConflicts", copy.id);
+    try {
+      await upsertTimeRecord(
+        m,
+        "manual-edit",
+        () => copy.after,
+        `Applied a change by ${copy.byEmail} that had conflicted`,
+        copy.date,
+        [(b) => b.delete(copyRef)]
+      );
+    } catch (e) {
+      console.error("RESOLVE TIME CONFLICT FAILED:", e);
+      alert("Saving the time record failed. See console for error.");
+    }
+  }
+
+  function discardTimeConflictCopy(copy: TimeConflictCopy) {
+    const allowed = copy.date < today(settings.timeZone) ? can.editPast : can.editToday;
+    if (denied(allowed, "edit time records on this date")) return;
+    if (!confirm(`Discard the change by ${copy.byEmail}? The time record stays as it is.`)) return;
+    const batch = writeBatch(db);
+    batch.delete(doc(db, "daycares", daycareId, "timeConflicts", copy.id));
+    queueBatch(batch, "Discarding the change failed.");
+  }
+
+  async function clockIn(m: StaffMember) {
+    if (denied(can.checkInOut, "use the time clock")) return;
+    const on = today(settings.timeZone);
+    if (openSegment(timeMap.get(`${on}_${m.id}`))) {
+      alert(`${m.name} is already clocked in.`);
+      return;
+    }
+    if (segmentsOf(timeMap.get(`${on}_${m.id}`)).length >= MAX_SEGMENTS) {
+      alert(`${m.name} already has ${MAX_SEGMENTS} shifts today. Use Edit to combine them.`);
+      return;
+    }
+    const now = nowHHMM(settings.timeZone);
+    try {
+      await upsertTimeRecord(
+        m,
+        "clock-in",
+        (segs) => (segs.some((s) => !s.out) ? segs : [...segs, { in: now, out: "" }]),
+        "Clock-in button",
+        on
+      );
+    } catch (e) {
+      console.error("CLOCK IN FAILED:", e);
+      alert("Clock-in failed. See console for error.");
+    }
+  }
+
+  // Closes whichever day's shift is open (a shift left open overnight included)
+  async function clockOut(m: StaffMember) {
+    if (denied(can.checkInOut, "use the time clock")) return;
+    const open = openTime.find((t) => t.staffId === m.id);
+    if (!open) {
+      alert(`${m.name} is not clocked in.`);
+      return;
+    }
+    const now = nowHHMM(settings.timeZone);
+    const at = open.date === today(settings.timeZone) ? now : closingTimeOn(closureMap, open.date, settings.closingTime);
+    try {
+      await upsertTimeRecord(
+        m,
+        "clock-out",
+        (segs) => closeOpenSegments(segs, at),
+        open.date === today(settings.timeZone) ? "Clock-out button" : `Clock-out button, closed at ${at}`,
+        open.date
+      );
+    } catch (e) {
+      console.error("CLOCK OUT FAILED:", e);
+      alert("Clock-out failed. See console for error.");
+    }
+  }
+
+  // Manual correction of one person's shifts on the selected date; a reason is required
+  async function editStaffTimes(m: StaffMember) {
+    const allowed = date < today(settings.timeZone) ? can.editPast : can.editToday;
+    if (denied(allowed, "edit time records on this date")) return;
+
+    const current = segmentsOf(timeMap.get(`${date}_${m.id}`));
+    const text = prompt(
+      `${m.name} on ${date}: shifts as HH:MM-HH:MM, separated by commas (blank clears the day):`,
+      current.map((s) => `${s.in}-${s.out}`).join(", ")
+    );
+    if (text == null) return;
+    const segs = parseSegmentList(text);
+    if (!segs) {
+      alert("Please enter shifts like 08:00-12:00, 12:30-17:00.");
+      return;
+    }
+    if (segs.length === 0 && current.length === 0) return;
+    // A blank entry clears the day; anything else must be a valid day
+    const problem = segs.length > 0 && validateSegments(segs);
+    if (problem) {
+      alert(problem);
+      return;
+    }
+    const reason = prompt("Reason for this change (required):")?.trim();
+    if (!reason) return;
+
+    try {
+      await upsertTimeRecord(m, "manual-edit", () => segs, reason, date);
+    } catch (e) {
+      console.error("EDIT TIME FAILED:", e);
+      alert("Saving the time record failed. See console for error.");
+    }
+  }
+
+  async function saveOvertimeHours(value: number) {
+    if (denied(can.editSettings, "change settings")) return;
+    if (!Number.isFinite(value) || value <= 0) {
+      alert("Overtime threshold must be a positive number of hours.");
+      return;
+    }
+    try {
+      await setDoc(
+        doc(db, "daycares", daycareId, "settings", "config"),
+        { overtimeHoursPerWeek: value },
+        { merge: true }
+      );
+    } catch (e) {
+      console.error("SAVE OVERTIME FAILED:", e);
+      alert("Saving overtime threshold failed. See console for error.");
+    }
+  }
+
+  function enterKiosk() {
+    if (denied(can.checkInOut, "run the parent kiosk")) return;
+    const ok = confirm("Switch this device to the parent kiosk? Leaving it will ask for your Google password.");
+    if (!ok) return;
+    localStorage.setItem(KIOSK_KEY, "1");
+    setKioskMode(true);
+    setDate(today(settings.timeZone)); // the kiosk always works on today's records
+    setProfileDraft(null);
+    setEditingKidId(null);
+    setHistoryKidId(null);
+    resetKiosk("");
+  }
+
+  // Leaving needs the staff account's password again, not just the open session
+  async function exitKiosk() {
+    if (!auth.currentUser) return;
+    try {
+      await reauthenticateWithPopup(auth.currentUser, staffReauthProvider);
+      localStorage.removeItem(KIOSK_KEY);
+      setKioskMode(false);
+      resetKiosk("");
+      setDate(today(settings.timeZone));
+    } catch (e) {
+      console.error("EXIT KIOSK FAILED:", e);
+      alert("Staff sign-in is required to leave kiosk mode.");
+    }
+  }
+
+  function resetKiosk(status: string) {
+    setKioskPin("");
+    setKioskFamily(null);
+    setKioskSelected([]);
+    setKioskSigner("");
+    setKioskSignature("");
+    setKioskStatus(status);
+  }
+
+  async function kioskLookup() {
+    const waitMin = kioskLockedFor();
+    if (waitMin) {
+      setKioskPin("");
+      setKioskStatus(`Too many wrong PINs. Please try again in ${waitMin} minute(s) or ask a staff member.`);
+      return;
+    }
+    const pin = kioskPin.trim();
+    if (!/^\d{4,6}$/.test(pin)) {
+      setKioskStatus("Please enter your 4–6 digit PIN.");
+      return;
+    }
+    setKioskStatus("Checking…");
+    const active = kids.filter((k) => k.active);
+    let direct: { kid: Kid; guardian: string }[];
+    try {
+      const key = await pinKey(daycareId, pin);
+      const snap = await getDocs(
+        query(collection(db, "daycares", daycareId, "kioskPins"), where("pinKeys", "array-contains", key))
+      );
+      direct = snap.docs.flatMap((d) => {
+        const pins = d.data() as KioskPins;
+        const kid = active.find((k) => k.id === pins.kidId);
+        const entry = pins.entries.find((e) => e.pinKey === key);
+        return kid && entry ? [{ kid, guardian: entry.guardian }] : [];
+      });
+      if (direct.length === 0) direct = await moveLegacyPin(active, pin, key);
+    } catch (e) {
+      console.error("KIOSK LOOKUP FAILED:", e);
+      setKioskPin("");
+      setKioskStatus("Checking the PIN failed. Please ask a staff member.");
+      return;
+    }
+    // Siblings in the same family come along even if only one lists this guardian
+    const familyIds = new Set(direct.map((m) => m.kid.familyId).filter(Boolean));
+    const matches = [
+      ...direct,
+      ...active
+        .filter((k) => k.familyId && familyIds.has(k.familyId) && !direct.some((m) => m.kid.id === k.id))
+        .map((k) => ({ kid: k, guardian: direct[0].guardian })),
+    ];
+    setKioskPin("");
+    if (matches.length === 0) {
+      recordKioskFail();
+      setKioskStatus("PIN not recognised. Please try again or ask a staff member.");
+      return;
+    }
+    clearKioskFails();
+    setKioskFamily({ guardian: matches[0].guardian, kidIds: matches.map((m) => m.kid.id) });
+    setKioskSelected(matches.map((m) => m.kid.id));
+    setKioskSigner(matches[0].guardian);
+    setKioskStatus("");
+  }
+
+  // A PIN still hashed on kid docs from before kioskPins: check those one
+  // guardian at a time, and move the ones it matches into kioskPins
+  async function moveLegacyPin(active: Kid[], pin: string, key: string) {
+    const found: { kid: Kid; guardian: string }[] = [];
+    for (const k of active.filter((k) => k.guardians?.some((g) => g.pinHash && g.pinSalt))) {
+      const guardians = k.guardians ?? [];
+      const hits = await Promise.all(guardians.map((g) => legacyPinMatches(g, pin)));
+      const matched = guardians.filter((_, i) => hits[i]);
+      if (matched.length === 0) continue;
+      found.push({ kid: k, guardian: matched[0].name });
+
+      const batch = writeBatch(db);
+      batch.update(doc(db, "daycares", daycareId, "kids", k.id), {
+        guardians: guardians.map((g, i) =>
+          hits[i] ? stripUndefined({ ...g, hasPin: true, pinHash: undefined, pinSalt: undefined }) : g
+        ),
+      });
+      batch.set(
+        doc(db, "daycares", daycareId, "kioskPins", k.id),
+        {
+          kidId: k.id,
+          entries: arrayUnion(...matched.map((g) => ({ guardian: g.name, pinKey: key }))),
+          pinKeys: arrayUnion(key),
+        },
+        { merge: true }
+      );
+      queueBatch(batch, `Moving a kiosk PIN for ${k.name} failed.`);
+    }
+    return found;
+  }
+
+  // Signs each chosen child in, or out if they are here, on today's record
+  async function kioskSubmit() {
+    if (!kioskFamily) return;
+    const guardian = kioskSigner.trim();
+    const chosen = kids.filter((k) => kioskSelected.includes(k.id));
+    if (chosen.length === 0) {
+      alert("Please pick at least one child.");
+      return;
+    }
+    if (!guardian) {
+      alert("Please type your name.");
+      return;
+    }
+    if (!kioskSignature) {
+      alert("Please sign in the box.");
+      return;
+    }
+
+    const on = today(settings.timeZone);
+    const signed = signatureFrom(guardian, kioskSignature);
+    const arriving = chosen.filter((k) => !openSegment(recMap.get(`${on}_${k.id}`)));
+    if (arriving.length && !arrivalAllows(arriving, on, true)) return;
+    for (const kid of chosen) {
+      if (arriving.includes(kid)) await checkIn(kid, signed, on, true);
+      else await checkOut(kid, signed, on);
+    }
+    resetKiosk(`Thank you, ${guardian}!`);
+    setTimeout(() => setKioskStatus(""), 4000);
+  }
+
+  async function saveTimeZone(value: string) {
+    if (denied(can.editSettings, "change settings")) return;
+    if (!user) return;
+    if (!isValidTimeZone(value)) {
+      alert("Please pick a valid time zone.");
+      return;
+    }
+    try {
+      await setDoc(doc(db, "daycares", daycareId, "settings", "config"), { timeZone: value }, { merge: true });
+    } catch (e) {
+      console.error("SAVE TIME ZONE FAILED:", e);
+      alert("Saving time zone failed. See console for error.");
+    }
+  }
+
+  // Move a record written on the wrong day (old UTC "today") onto `toDate`,
+  // merging into any record already there and carrying its history along.
+  async function moveRecordToDate(r: RecordRow, toDate: string) {
+    if (denied(can.editPast, "repair past records")) return;
+    if (blockedOn(r.date, "repair past records") || blockedOn(toDate, "repair past records")) return;
+    if (!user) return;
+
+    const targetId = `${toDate}_${r.kidId}`;
+    let target: RecordRow | undefined;
+    try {
+      const snap = await getDoc(doc(db, "daycares", daycareId, "records", targetId));
+      target = snap.exists() ? (snap.data() as RecordRow) : undefined;
+    } catch (e) {
+      console.error("LOAD RECORD FAILED:", e);
+      alert("Loading the target record failed. See console for error.");
+      return;
+    }
+    const segs = [...segmentsOf(target), ...segmentsOf(r)];
+    const problem = validateSegments(segs);
+    if (problem) {
+      alert(`Can't move ${r.kidName} from ${r.date} to ${toDate}: ${problem}`);
+      return;
+    }
+
+    const reason = `Moved from ${r.date} (time zone repair)`;
+    const base: RecordRow = target ?? { ...r, id: targetId, date: toDate };
+    const merged = calcMeals(
+      withSegments(
+        {
+          ...base,
+          mealOverrides: { ...(r.mealOverrides ?? {}), ...(target?.mealOverrides ?? {}) },
+          source: "manual",
+          editedBy: user.uid,
+          editReason: reason,
+          timeZone: settings.timeZone,
+          updatedAt: serverTimestamp(),
+        },
+        segs
+      ),
+      mealTimesForDate(mealSchedules, toDate)
+    );
+    const data = { ...stripUndefined(merged), baseRev: target?.rev ?? 0, rev: increment(1) };
+
+    try {
+      const recCol = collection(db, "daycares", daycareId, "records");
+      const oldHistory = await getDocs(collection(db, "daycares", daycareId, "records", r.id, "history"));
+
+      // Writes first, deletes last, so a partial failure never loses data
+      const ops: BatchOp[] = [];
+      for (const h of oldHistory.docs) {
+        ops.push((b) => b.set(doc(recCol, targetId, "history", h.id), { ...h.data(), recordId: targetId }));
+      }
+      ops.push((b) => b.set(doc(recCol, targetId), data, { mergeFields: Object.keys(data) }));
+      ops.push((b) =>
+        b.set(
+          historyRef(targetId),
+          historyEntry(user, targetId, "move-date", target ? snapshotOf(target) : null, merged, reason)
+        )
+      );
+      ops.push(...rollupOps([[r, null], [target, merged]]));
+      for (const h of oldHistory.docs) ops.push((b) => b.delete(h.ref));
+      ops.push((b) => b.delete(doc(recCol, r.id)));
+
+      await commitInChunks(ops);
+      setRangeRecords((rs) => rs.filter((x) => x.id !== r.id));
+    } catch (e) {
+      console.error("MOVE RECORD FAILED:", e);
+      alert("Moving the record failed. See console for error.");
+    }
+  }
+
+  async function moveAllShifted() {
+    if (denied(can.editPast, "repair past records")) return;
+    const ok = confirm(`Move ${shiftedRecords.length} record(s) to the date they were actually taken?`);
+    if (!ok) return;
+    for (const { record, toDate } of shiftedRecords) await moveRecordToDate(record, toDate);
+  }
+
+  async function clearTimes(kid: Kid) {
+    if (blockedOn(date, "change records on this date")) return;
+    try {
+      setSaveStatus("Clearing…");
+
+      await upsertRecord(kid, "clear", {
+        segments: [],
+        mealOverrides: {},
+        inTime: "",
+        outTime: "",
+        breakfast: 0,
+        amSnack: 0,
+        lunch: 0,
+        pmSnack: 0,
+        source: "manual",
+        editedBy: user?.uid,
+        editReason: "Cleared times",
+      });
+
+      setSaveStatus("Cleared ✓");
+      setTimeout(() => setSaveStatus(""), 1500);
+    } catch (e) {
+      console.error("CLEAR TIMES FAILED:", e);
+      setSaveStatus("");
+      alert("Clear failed. See console for error.");
+    }
+  }
+
+  async function saveManualTimes(kid: Kid) {
+    if (blockedOn(date, "change records on this date")) return;
+    try {
+      setSaveStatus("Saving…");
+
+      const segments = editSegments.map((seg) => ({ in: seg.in.trim(), out: seg.out.trim() }));
+      const reasonTrim = editReason.trim();
+
+      const problem = validateSegments(segments) ?? enrollmentProblem(kid, date);
+      if (problem) {
+        setSaveStatus("");
+        alert(problem);
+        return;
+      }
+
+      const patch: Partial<RecordRow> = {
+        segments,
+        mealOverrides: editOverrides,
+        source: "manual",
+        editedBy: user?.uid,
+      };
+
+      if (reasonTrim) patch.editReason = reasonTrim;
+
+      await upsertRecord(kid, "manual-edit", patch);
+
+      setSaveStatus("Saved ✓");
+      setEditingKidId(null);
+      setTimeout(() => setSaveStatus(""), 1500);
+    } catch (e) {
+      console.error("SAVE MANUAL TIMES FAILED:", e);
+      setSaveStatus("");
+      alert("Save failed. See console for error.");
+    }
+  }
+
+  async function revertToVersion(kid: Kid, entry: HistoryEntry) {
+    if (blockedOn(date, "change records on this date")) return;
+    const reason = prompt(
+      `Revert ${kid.name} to the version from ${new Date(entry.clientAt).toLocaleString()}? Enter a reason:`
+    );
+    if (reason == null) return;
+    if (!reason.trim()) {
+      alert("A reason is required to revert.");
+      return;
+    }
+
+    try {
+      setSaveStatus("Reverting…");
+      await upsertRecord(kid, "revert", {
+        ...snapshotPatch(entry.after),
+        source: "manual",
+        editedBy: user?.uid,
+        editReason: reason.trim(),
+      });
+      setSaveStatus("Reverted ✓");
+      setTimeout(() => setSaveStatus(""), 1500);
+    } catch (e) {
+      console.error("REVERT FAILED:", e);
+      setSaveStatus("");
+      alert("Revert failed. See console for error.");
+    }
+  }
+
+  function startEditingRates() {
+    if (denied(can.editSettings, "edit reimbursement rates")) return;
+    setRateDrafts(
+      ratePeriods.map((p) => ({
+        startDate: p.startDate,
+        endDate: p.endDate,
+        breakfast: String(p.breakfast ?? 0),
+        snack: String(p.snack ?? 0),
+        lunch: String(p.lunch ?? 0),
+      }))
+    );
+  }
+
+  function setRateDraft(idx: number, field: keyof RatePeriodDraft, value: string) {
+    if (!rateDrafts) return;
+    setRateDrafts(rateDrafts.map((d, j) => (j === idx ? { ...d, [field]: value } : d)));
+  }
+
+  // New period starts the day after the last one ends (closing an open one yesterday)
+  function addRatePeriod() {
+    const drafts = [...(rateDrafts ?? [])].sort((a, b) => a.startDate.localeCompare(b.startDate));
+    const last = drafts.pop();
+    if (!last) {
+      setRateDrafts([{ startDate: today(settings.timeZone), endDate: "", breakfast: "0", snack: "0", lunch: "0" }]);
+      return;
+    }
+    // Close an open-ended period yesterday, or on its own start date if that is today or later
+    const yesterday = addDays(today(settings.timeZone), -1);
+    const closed = { ...last, endDate: last.endDate || (last.startDate > yesterday ? last.startDate : yesterday) };
+    setRateDrafts([...drafts, closed, { ...closed, startDate: addDays(closed.endDate, 1), endDate: "" }]);
+  }
+
+  async function saveRatePeriods() {
+    if (denied(can.editSettings, "edit reimbursement rates")) return;
+    if (!user || !rateDrafts) return;
+
+    const problem = validateRatePeriods(rateDrafts);
+    if (problem) {
+      alert(problem);
+      return;
+    }
+
+    setRatesStatus("Saving…");
+
+    const ratesCol = collection(
+      db,
+      "daycares",
+      daycareId,
+      "settings",
+      "config",
+      "ratePeriods"
+    );
+
+    // Replace the whole set so removed periods disappear with the save
+    const ops: BatchOp[] = [];
+    const keep = new Set(rateDrafts.map((d) => d.startDate));
+    for (const p of ratePeriods) {
+      if (!keep.has(p.startDate)) ops.push((b) => b.delete(doc(ratesCol, p.startDate)));
+    }
+    const next: RatePeriod[] = rateDrafts.map((d) => ({
+      startDate: d.startDate,
+      endDate: d.endDate,
+      breakfast: round2(Number(d.breakfast)),
+      snack: round2(Number(d.snack)),
+      lunch: round2(Number(d.lunch)),
+    }));
+    for (const p of next) {
+      ops.push((b) => b.set(doc(ratesCol, p.startDate), { ...p, updatedAt: serverTimestamp() }));
+    }
+
+    try {
+      // Rollup dollars are priced at the rates in force, so re-price the
+      // years whose rates changed in the same save
+      const changed = rateChangeRange(ratePeriods, next);
+      if (changed) {
+        const [fromYear, toYear] = [changed.from.slice(0, 4), changed.to.slice(0, 4)];
+        const existing = rollups
+          .map((r) => r.period)
+          .filter((k) => k.slice(0, 4) >= fromYear && k.slice(0, 4) <= toYear);
+        const records = await fetchRecords(daycareId, changed.from, changed.to);
+        ops.push(...rollupRebuildOps(daycareId, records, next, existing, lockedMonths));
+      }
+
+      await commitInChunks(ops);
+      setRateDrafts(null);
+      setRatesStatus("Saved ✓");
+      setTimeout(() => setRatesStatus(""), 1500);
+    } catch (e) {
+      console.error("SAVE RATES FAILED:", e);
+      setRatesStatus("");
+      alert("Saving reimbursement rates failed. See console for error.");
+    }
+  }
+
+  // Load the editor from the version in force on `from` (exact match or the one before it)
+  function loadScheduleDraft(from: string) {
+    setSchedFrom(from);
+    let src: MealSchedule | null = null;
+    for (const s of mealSchedules) if (s.effectiveFrom <= from) src = s;
+    setSchedMeals(src ? { ...DEFAULT_MEAL_TIMES, ...src.meals } : DEFAULT_MEAL_TIMES);
+    setSchedWeekdays(src?.weekdays ?? {});
+  }
+
+  // Times shown in the editor for the selected day (variant over base)
+  const schedShown: MealTimes = schedDay
+    ? { ...schedMeals, ...(schedWeekdays[schedDay] ?? {}) }
+    : schedMeals;
+
+  function setSchedTime(meal: MealKey, field: keyof MealWindow, value: string) {
+    const w = { ...schedShown[meal], [field]: value };
+    if (!schedDay) {
+      setSchedMeals({ ...schedMeals, [meal]: w });
+    } else {
+      setSchedWeekdays({
+        ...schedWeekdays,
+        [schedDay]: { ...(schedWeekdays[schedDay] ?? {}), [meal]: w },
+      });
+    }
+  }
+
+  function removeWeekdayVariant() {
+    if (!schedDay) return;
+    const next = { ...schedWeekdays };
+    delete next[schedDay];
+    setSchedWeekdays(next);
+  }
+
+  async function saveMealSchedule() {
+    if (denied(can.editSettings, "change the meal schedule")) return;
+    if (!user) return;
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(schedFrom)) {
+      alert("Please pick a valid effective date.");
+      return;
+    }
+
+    const windows: [string, MealWindow][] = [];
+    for (const m of MEAL_KEYS) windows.push([MEAL_LABELS[m], schedMeals[m]]);
+    for (const [day, v] of Object.entries(schedWeekdays)) {
+      for (const m of MEAL_KEYS) {
+        const w = v[m];
+        if (w) windows.push([`${WEEKDAY_LABELS[Number(day)]} ${MEAL_LABELS[m]}`, w]);
+      }
+    }
+    for (const [label, w] of windows) {
+      if (!isValidHHMM(w.start) || !isValidHHMM(w.end) || toMin(w.end)! < toMin(w.start)!) {
+        alert(`${label}: enter valid HH:MM times with end not earlier than start.`);
+        return;
+      }
+    }
+
+    setSchedStatus("Saving…");
+
+    const ref = doc(
+      db,
+      "daycares",
+      daycareId,
+      "settings",
+      "config",
+      "mealSchedules",
+      schedFrom
+    );
+
+    const payload: MealSchedule = {
+      effectiveFrom: schedFrom,
+      meals: schedMeals,
+      weekdays: schedWeekdays,
+      updatedAt: serverTimestamp(),
+    };
+
+    try {
+      await setDoc(ref, payload);
+      setSchedStatus("Saved ✓");
+      setTimeout(() => setSchedStatus(""), 1500);
+    } catch (e) {
+      console.error("SAVE MEAL SCHEDULE FAILED:", e);
+      setSchedStatus("");
+      alert("Saving meal schedule failed. See console for error.");
+    }
+  }
+
+  async function deleteMealSchedule(from: string) {
+    if (denied(can.editSettings, "change the meal schedule")) return;
+    if (!user) return;
+    const ok = confirm(
+      `Delete the meal schedule effective ${from}? Dates it covered fall back to the previous version.`
+    );
+    if (!ok) return;
+
+    try {
+      await deleteDoc(
+        doc(db, "daycares", daycareId, "settings", "config", "mealSchedules", from)
+      );
+    } catch (e) {
+      console.error("DELETE MEAL SCHEDULE FAILED:", e);
+      alert("Deleting meal schedule failed. See console for error.");
+    }
+  }
+
+  // Re-run calcMeals on stored records using the schedule in force on each record's date
+  async function recalcAllMeals() {
+    if (denied(can.editSettings, "recalculate past records")) return;
+    if (!user) return;
+    const ok = confirm(
+      "Recalculate meal counts for every record using the schedule in force on its date?"
+    );
+    if (!ok) return;
+
+    setSchedStatus("Recalculating…");
+    try {
+      let changed = 0;
+      for (const r of await fetchRecords(daycareId, "", "9999-12-31")) {
+        if (lockedMonths.has(monthFromDate(r.date))) continue;
+        const next = calcMeals(r, mealTimesForDate(mealSchedules, r.date));
+        if (MEAL_KEYS.every((m) => next[m] === r[m])) continue;
+
+        const batch = writeBatch(db);
+        batch.update(doc(db, "daycares", daycareId, "records", r.id), {
+          breakfast: next.breakfast,
+          amSnack: next.amSnack,
+          lunch: next.lunch,
+          pmSnack: next.pmSnack,
+          updatedAt: serverTimestamp(),
+        });
+        batch.set(
+          historyRef(r.id),
+          historyEntry(user, r.id, "recalc", snapshotOf(r), next, "Recalculated with meal schedule")
+        );
+        for (const op of rollupOps([[r, next]])) op(batch);
+        await batch.commit();
+        changed++;
+      }
+      setSchedStatus(`Updated ${changed} record(s) ✓`);
+      setTimeout(() => setSchedStatus(""), 2500);
+    } catch (e) {
+      console.error("RECALC MEALS FAILED:", e);
+      setSchedStatus("");
+      alert("Recalculating meals failed. See console for error.");
+    }
+  }
+
+  // Read from the stored rollups, not by re-adding every record
+  const monthlySummary = useMemo(
+    () =>
+      rollups
+        .filter((r) => r.period.length === 7)
+        .sort((a, b) => a.period.localeCompare(b.period))
+        .map(({ period, ...r }) => ({
+          month: period,
+          year: yearFromDate(period),
+          ...r,
+          total: round2(r.total),
+          ratePeriodUsed: periodsBetween(ratePeriods, `${period}-01`, lastDayOfMonth(period)).pop() ?? "", // latest in the month
+          daysOfOperation: daysOfOperation(closureMap, settings.openWeekdays, `${period}-01`, lastDayOfMonth(period)),
+        })),
+    [rollups, ratePeriods, closureMap, settings.openWeekdays]
+  );
+
+  const annualSummary = useMemo(
+    () =>
+      rollups
+        .filter((r) => r.period.length === 4)
+        .sort((a, b) => a.period.localeCompare(b.period))
+        .map(({ period, ...r }) => ({
+          year: Number(period),
+          ...r,
+          total: round2(r.total),
+          ratePeriodsUsed: periodsBetween(ratePeriods, `${period}-01-01`, `${period}-12-31`).join(", "),
+          daysOfOperation: daysOfOperation(closureMap, settings.openWeekdays, `${period}-01-01`, `${period}-12-31`),
+        })),
+    [rollups, ratePeriods, closureMap, settings.openWeekdays]
+  );
+
+  const monthTotals = (month: string): MonthTotals => {
+    const r = monthlySummary.find((m) => m.month === month);
+    return {
+      breakfasts: r?.breakfasts ?? 0,
+      snacks: r?.snacks ?? 0,
+      lunches: r?.lunches ?? 0,
+      total: r?.total ?? 0,
+      incompleteExcluded: r?.incompleteExcluded ?? 0,
+    };
+  };
+
+  // Close a month once its claim is filed; the totals are kept for comparison
+  async function lockMonth(month: string) {
+    if (denied(can.editPast, "close months")) return;
+    if (!user) return;
+    const totals = monthTotals(month);
+    const ok = confirm(
+      `Close ${month}? Records in this month can't be changed until an owner reopens it.` +
+        (totals.incompleteExcluded ? `\n\n${totals.incompleteExcluded} record(s) are still missing a check-out.` : "")
+    );
+    if (!ok) return;
+
+    try {
+      const lockRef = doc(db, "daycares", daycareId, "monthLocks", month);
+      const logRef = doc(collection(lockRef, "log"));
+      const batch = writeBatch(db);
+      batch.set(logRef, lockLogEntry(user, month, "lock", "", totals));
+      batch.set(lockRef, {
+        month,
+        locked: true,
+        submitted: totals,
+        logId: logRef.id,
+        updatedBy: user.uid,
+        updatedAt: serverTimestamp(),
+      } satisfies MonthLock);
+      await batch.commit();
+    } catch (e) {
+      console.error("LOCK MONTH FAILED:", e);
+      alert("Closing the month failed. See console for error.");
+    }
+  }
+
+  async function unlockMonth(lock: MonthLock) {
+    if (denied(can.editPast, "reopen months")) return;
+    if (!user) return;
+    const reason = prompt(`Reason for reopening ${lock.month} (required):`)?.trim();
+    if (!reason) return;
+
+    try {
+      const lockRef = doc(db, "daycares", daycareId, "monthLocks", lock.month);
+      const logRef = doc(collection(lockRef, "log"));
+      const batch = writeBatch(db);
+      batch.set(logRef, lockLogEntry(user, lock.month, "unlock", reason, monthTotals(lock.month)));
+      batch.update(lockRef, { locked: false, logId: logRef.id, updatedBy: user.uid, updatedAt: serverTimestamp() });
+      await batch.commit();
+    } catch (e) {
+      console.error("UNLOCK MONTH FAILED:", e);
+      alert("Reopening the month failed. See console for error.");
+    }
+  }
+
+  // Rebuild every rollup from the raw records (after rate changes, or if a
+  // partial write ever left them out of step)
+  async function rebuildRollups() {
+    if (denied(can.editSettings, "rebuild summaries")) return;
+    const ok = confirm("Rebuild the monthly and annual summaries from every stored record?");
+    if (!ok) return;
+
+    setReportStatus("Rebuilding…");
+    try {
+      const records = await fetchRecords(daycareId, "", "9999-12-31");
+      await commitInChunks(
+        rollupRebuildOps(daycareId, records, ratePeriods, rollups.map((r) => r.period), lockedMonths)
+      );
+      setReportStatus(`Rebuilt summaries from ${records.length} records ✓`);
+      setTimeout(() => setReportStatus(""), 2500);
+    } catch (e) {
+      console.error("REBUILD ROLLUPS FAILED:", e);
+      setReportStatus("");
+      alert("Rebuilding summaries failed. See console for error.");
+    }
+  }
+
+  async function loadReportRange() {
+    if (!isValidDate(reportFrom) || !isValidDate(reportTo) || reportFrom > reportTo) {
+      alert("Please pick a valid date range.");
+      return;
+    }
+    setReportStatus("Loading…");
+    try {
+      setRangeRecords(await fetchRecords(daycareId, reportFrom, reportTo));
+      setRangeTime(await fetchTimeRecords(daycareId, reportFrom, reportTo));
+      setRangeAbsences(await fetchAbsences(daycareId, reportFrom, reportTo));
+      setReportRange({ from: reportFrom, to: reportTo });
+      setReportStatus("");
+    } catch (e) {
+      console.error("LOAD RANGE FAILED:", e);
+      setReportStatus("");
+      alert("Loading records failed. See console for error.");
+    }
+  }
+
+  // Peak children on site per day in the loaded range (inspection records)
+  const dailyPeaks = useMemo(() => {
+    const byDate = new Map<string, RecordRow[]>();
+    for (const r of rangeRecords) byDate.set(r.date, [...(byDate.get(r.date) ?? []), r]);
+    return [...byDate]
+      .map(([d, rs]) => ({ date: d, ...peakAttendance(rs) }))
+      .filter((p) => p.count > 0)
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }, [rangeRecords]);
+
+  // Weekly staff hours in the loaded range (payroll)
+  const staffHours = useMemo(
+    () => staffWeeks(rangeTime, settings.overtimeHoursPerWeek),
+    [rangeTime, settings.overtimeHoursPerWeek]
+  );
+
+  // Absences per child per month in the loaded range, up to today
+  const absenceReport = useMemo(
+    () =>
+      reportRange
+        ? absenceStats(
+            kids,
+            rangeRecords,
+            rangeAbsences,
+            closureMap,
+            reportRange.from,
+            reportRange.to,
+            today(settings.timeZone)
+          )
+        : [],
+    [kids, rangeRecords, rangeAbsences, closureMap, reportRange, settings.timeZone]
+  );
+
+  // Whether the loaded range covers from..to
+  const rangeCovers = (from: string, to: string) =>
+    !!reportRange && reportRange.from <= from && reportRange.to >= to;
+  const claimCovered = rangeCovers(`${claimMonth}-01`, lastDayOfMonth(claimMonth));
+
+  // Balances carry forward, so billing needs every record up to the month shown
+  async function loadBillingHistory() {
+    try {
+      setBillingRecords(await fetchRecords(daycareId, "", lastDayOfMonth(billingMonth)));
+      setBillingThrough(billingMonth);
+    } catch (e) {
+      console.error("LOAD BILLING HISTORY FAILED:", e);
+      alert("Loading billing history failed. See console for error.");
+    }
+  }
+
+  // Per-child counts for the sponsor's monthly claim form; optionally one
+  // row per family (children without a family keep their own row)
+  const claimReport = useMemo(() => {
+    type Row = {
+      key: string; // kid id, or `family:${familyId}`
+      child: string; // child or family name
+      daysAttended: number;
+      breakfast: number;
+      amSnack: number;
+      lunch: number;
+      pmSnack: number;
+    };
+
+    const byKid = new Map<string, Row>();
+    const kidsPerDay = new Map<string, number>();
+    let incomplete = 0;
+
+    for (const r of rangeRecords) {
+      if (monthFromDate(r.date) !== claimMonth) continue;
+      if (segmentsOf(r).length === 0) continue; // cleared or never checked in
+      if (isIncomplete(r)) {
+        incomplete += 1;
+        continue;
+      }
+
+      const kid = kids.find((k) => k.id === r.kidId);
+      const family = claimByFamily && kid?.familyId ? families.find((f) => f.id === kid.familyId) : undefined;
+      const key = family ? `family:${family.id}` : r.kidId;
+
+      const cur = byKid.get(key) || {
+        key,
+        child: family?.name ?? kid?.name ?? r.kidName,
+        daysAttended: 0,
+        breakfast: 0,
+        amSnack: 0,
+        lunch: 0,
+        pmSnack: 0,
+      };
+      cur.daysAttended += 1;
+      for (const m of MEAL_KEYS) cur[m] += r[m] || 0;
+      byKid.set(key, cur);
+
+      kidsPerDay.set(r.date, (kidsPerDay.get(r.date) ?? 0) + 1);
+    }
+
+    const rows = Array.from(byKid.values()).sort((a, b) => a.child.localeCompare(b.child));
+    const totals = {
+      daysAttended: 0,
+      breakfast: 0,
+      amSnack: 0,
+      lunch: 0,
+      pmSnack: 0,
+    };
+    for (const r of rows) {
+      totals.daysAttended += r.daysAttended;
+      for (const m of MEAL_KEYS) totals[m] += r[m];
+    }
+
+    return {
+      rows,
+      totals,
+      daysOfOperation: daysOfOperation(
+        closureMap,
+        settings.openWeekdays,
+        `${claimMonth}-01`,
+        lastDayOfMonth(claimMonth)
+      ),
+      closed: closures.filter((c) => monthFromDate(c.date) === claimMonth && isClosedOn(closureMap, c.date)),
+      highestDailyAttendance: Math.max(0, ...kidsPerDay.values()),
+      incomplete,
+    };
+  }, [rangeRecords, kids, families, claimByFamily, claimMonth, closures, closureMap, settings.openWeekdays]);
+
+  // Who gets an invoice: each family, plus every child without one
+  const billingGroups = useMemo(() => {
+    const groups: BillingGroup[] = families.map((f) => ({
+      key: f.id,
+      name: f.name,
+      kids: kids.filter((k) => k.familyId === f.id),
+    }));
+    for (const k of kids) {
+      if (!k.familyId || !families.some((f) => f.id === k.familyId)) {
+        groups.push({ key: `kid:${k.id}`, name: k.name, kids: [k] });
+      }
+    }
+    return groups.sort((a, b) => a.name.localeCompare(b.name));
+  }, [families, kids]);
+
+  // Every invoice up to the month being viewed (balances carry forward)
+  const billingReady = billingThrough !== "" && billingThrough >= billingMonth;
+  const invoices = useMemo(
+    () =>
+      billingReady
+        ? buildInvoices(
+            billingGroups,
+            billingRecords,
+            payments,
+            {
+              closingTime: settings.closingTime,
+              closingTimes: settings.closingTimes,
+              closures: closureMap,
+              graceMin: settings.latePickupGraceMin,
+              feePerMin: settings.latePickupFeePerMin,
+            },
+            billingMonth
+          )
+        : [],
+    [billingReady, billingGroups, billingRecords, payments, settings, closureMap, billingMonth]
+  );
+
+  const monthInvoices = invoices.filter(
+    (i) => i.month === billingMonth && (i.charges || i.paid || i.previousBalance || i.balance)
+  );
+
+  function printInvoice(inv: Invoice) {
+    const w = window.open("", "_blank");
+    if (!w) {
+      alert("Please allow pop-ups to print invoices.");
+      return;
+    }
+    w.document.write(invoiceHtml(inv));
+    w.document.close();
+    w.focus();
+    w.print();
+  }
+
+  const statements = useMemo(
+    () => yearEndStatements(billingGroups, rangeRecords, payments, statementYear),
+    [billingGroups, rangeRecords, payments, statementYear]
+  );
+
+  // One family, or the whole batch when `list` is every statement
+  function printStatements(list: YearEndStatement[]) {
+    if (list.length === 0) return;
+    if (!settings.providerName.trim() || !settings.providerTaxId.trim()) {
+      if (!confirm("Provider name or tax ID is not set. Print anyway?")) return;
+    }
+    const w = window.open("", "_blank");
+    if (!w) {
+      alert("Please allow pop-ups to print statements.");
+      return;
+    }
+    w.document.write(statementHtml(list, settings));
+    w.document.close();
+    w.focus();
+    w.print();
+  }
+
+  function exportStatementsExcel() {
+    const summary = statements.map((st) => ({
+      Family: st.familyName,
+      Year: st.year,
+      "Total Paid": st.totalPaid,
+      Payments: st.payments.length,
+      Children: st.children.map((c) => `${c.name} (${c.dates.length} days)`).join(", "),
+      "Provider Name": settings.providerName,
+      "Provider Address": settings.providerAddress.replace(/\n/g, ", "),
+      "Provider Tax ID": settings.providerTaxId,
+    }));
+    const paid = statements.flatMap((st) =>
+      st.payments.map((p) => ({ Family: st.familyName, Date: p.date, Amount: p.amount, Method: p.method }))
+    );
+    const attended = statements.flatMap((st) =>
+      st.children.flatMap((c) => c.dates.map((d) => ({ Family: st.familyName, Child: c.name, Date: d })))
+    );
+
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(summary), "Statements");
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(paid), "Payments");
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(attended), "Attendance");
+    XLSX.writeFile(wb, `statements-${statementYear}.xlsx`);
+  }
+
+  async function saveProviderInfo(field: "providerName" | "providerAddress" | "providerTaxId", value: string) {
+    if (denied(can.manageBilling, "change provider details")) return;
+    try {
+      await setDoc(
+        doc(db, "daycares", daycareId, "settings", "config"),
+        { [field]: value.trim() },
+        { merge: true }
+      );
+    } catch (e) {
+      console.error("SAVE PROVIDER INFO FAILED:", e);
+      alert("Saving provider details failed. See console for error.");
+    }
+  }
+
+  async function recordPayment(inv: Invoice) {
+    if (denied(can.manageBilling, "record payments")) return;
+    if (!user) return;
+
+    const raw = prompt(`Payment received from ${inv.familyName} (dollars):`, inv.balance > 0 ? String(inv.balance) : "");
+    if (raw === null) return;
+    const amount = round2(Number(raw));
+    if (!raw.trim() || !Number.isFinite(amount) || amount <= 0) {
+      alert("Please enter a positive amount.");
+      return;
+    }
+    const date = prompt("Date received (YYYY-MM-DD):", today(settings.timeZone))?.trim();
+    if (!date) return;
+    if (!isValidDate(date)) {
+      alert("Please enter a valid date.");
+      return;
+    }
+    const method = prompt("Method (cash, check #, card…):", "")?.trim() ?? "";
+
+    const payment: Payment = {
+      id: crypto.randomUUID(),
+      familyKey: inv.familyKey,
+      date,
+      amount,
+      method,
+      note: "",
+      recordedBy: user.uid,
+      createdAt: serverTimestamp(),
+    };
+    try {
+      await setDoc(doc(db, "daycares", daycareId, "payments", payment.id), payment);
+    } catch (e) {
+      console.error("RECORD PAYMENT FAILED:", e);
+      alert("Recording the payment failed. See console for error.");
+    }
+  }
+
+  async function deletePayment(p: Payment) {
+    if (denied(can.manageBilling, "delete payments")) return;
+    if (!confirm(`Delete the ${money(p.amount)} payment from ${p.date}?`)) return;
+    try {
+      await deleteDoc(doc(db, "daycares", daycareId, "payments", p.id));
+    } catch (e) {
+      console.error("DELETE PAYMENT FAILED:", e);
+      alert("Deleting the payment failed. See console for error.");
+    }
+  }
+
+  async function saveLateFees(graceMin: number, feePerMin: number) {
+    if (denied(can.manageBilling, "change late fees")) return;
+    if (!Number.isFinite(graceMin) || graceMin < 0 || !Number.isFinite(feePerMin) || feePerMin < 0) {
+      alert("Please enter non-negative numbers for late fees.");
+      return;
+    }
+    try {
+      await setDoc(
+        doc(db, "daycares", daycareId, "settings", "config"),
+        { latePickupGraceMin: Math.round(graceMin), latePickupFeePerMin: round2(feePerMin) },
+        { merge: true }
+      );
+    } catch (e) {
+      console.error("SAVE LATE FEES FAILED:", e);
+      alert("Saving late fees failed. See console for error.");
+    }
+  }
+
+  function exportClaimExcel() {
+    if (!claimCovered) {
+      alert(`Load records covering ${claimMonth} under Reports before exporting its claim.`);
+      return;
+    }
+
+    const sheetRows = [
+      ...claimReport.rows.map((r) => ({
+        [claimByFamily ? "Family / Child" : "Child"]: r.child,
+        "Days Attended": r.daysAttended,
+        Breakfast: r.breakfast,
+        "AM Snack": r.amSnack,
+        Lunch: r.lunch,
+        "PM Snack": r.pmSnack,
+      })),
+      {
+        [claimByFamily ? "Family / Child" : "Child"]: "TOTAL",
+        "Days Attended": claimReport.totals.daysAttended,
+        Breakfast: claimReport.totals.breakfast,
+        "AM Snack": claimReport.totals.amSnack,
+        Lunch: claimReport.totals.lunch,
+        "PM Snack": claimReport.totals.pmSnack,
+      },
+    ];
+
+    const ws = XLSX.utils.json_to_sheet(sheetRows);
+    XLSX.utils.sheet_add_aoa(
+      ws,
+      [
+        [],
+        ["Claim month", claimMonth],
+        ["Days of operation", claimReport.daysOfOperation],
+        ["Closed", claimReport.closed.map((c) => `${c.date} ${c.label}`).join("; ")],
+        ["Highest daily attendance", claimReport.highestDailyAttendance],
+        ["Incomplete records excluded", claimReport.incomplete],
+      ],
+      { origin: -1 }
+    );
+
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, ws, `Claim ${claimMonth}`);
+    XLSX.writeFile(wb, `claim-${claimMonth}.xlsx`);
+  }
+
+  const importPlan = useMemo(
+    () =>
+      importRows
+        ? planImport(
+            importRows,
+            importMapping,
+            kids,
+            importExistingIds,
+            importCreateKids,
+            lockedMonths
+          )
+        : null,
+    [importRows, importMapping, kids, importExistingIds, importCreateKids, lockedMonths]
+  );
+
+  // Which records already exist across the file's dates
+  useEffect(() => {
+    if (!daycareId || !importRows || !importMapping.date) return;
+    const dates = importRows
+      .map((row) => parseImportDate(row[importMapping.date]))
+      .filter((d): d is string => !!d)
+      .sort();
+    if (!dates.length) return;
+
+    let cancelled = false;
+    fetchRecords(daycareId, dates[0], dates[dates.length - 1])
+      .then((rs) => {
+        if (!cancelled) setImportExistingIds(new Set(rs.map((r) => r.id)));
+      })
+      .catch((e) => console.error("LOAD EXISTING RECORDS FAILED:", e));
+    return () => {
+      cancelled = true;
+    };
+  }, [daycareId, importRows, importMapping.date]);
+
+  async function readImportFile(file: File) {
+    try {
+      const wb = XLSX.read(await file.arrayBuffer(), { type: "array" });
+      const ws = wb.Sheets[wb.SheetNames[0]];
+      const rows = XLSX.utils.sheet_to_json<Record<string, unknown>>(ws, { defval: "" });
+      const headers = ((XLSX.utils.sheet_to_json<unknown[]>(ws, { header: 1 })[0] ?? []) as unknown[]).map(
+        (h) => String(h)
+      );
+
+      setImportFileName(file.name);
+      setImportHeaders(headers);
+      setImportMapping(guessImportMapping(headers));
+      setImportRows(rows);
+    } catch (e) {
+      console.error("READ IMPORT FILE FAILED:", e);
+      alert("Could not read that file. Please choose an Excel workbook or CSV file.");
+    }
+  }
+
+  function cancelImport() {
+    setImportRows(null);
+    setImportHeaders([]);
+    setImportFileName("");
+  }
+
+  async function runImport() {
+    if (denied(can.importData, "import records")) return;
+    if (!user || !importPlan || importPlan.rows.length === 0) return;
+
+    const ok = confirm(
+      `Import ${importPlan.rows.length} record(s)` +
+        (importPlan.newKids.length ? ` and create ${importPlan.newKids.length} child(ren)` : "") +
+        (importPlan.errors.length ? `? ${importPlan.errors.length} row(s) with errors will be skipped.` : "?")
+    );
+    if (!ok) return;
+
+    try {
+      setImportStatus("Importing…");
+      const ops: BatchOp[] = [];
+      const dates = importPlan.rows.map((p) => p.date);
+      const existing = new Map(
+        (await fetchRecords(daycareId, dates[0], dates[dates.length - 1])).map((r) => [r.id, r])
+      );
+
+      // Children to create, keyed by lower-case name like the plan
+      const created = new Map<string, Kid>();
+      for (const name of importPlan.newKids) {
+        const kid: Kid = { id: crypto.randomUUID(), name, active: true };
+        created.set(name.toLowerCase(), kid);
+        ops.push((b) => b.set(doc(db, "daycares", daycareId, "kids", kid.id), kid));
+      }
+
+      for (const p of importPlan.rows) {
+        const kid = p.kidId
+          ? kids.find((k) => k.id === p.kidId)!
+          : created.get(p.kidName.toLowerCase())!;
+        const id = `${p.date}_${kid.id}`;
+        const stored = existing.get(id);
+        const base = stored ?? emptyRecord(p.date, kid);
+
+        const merged = calcMeals(
+          withSegments(
+            {
+              ...base,
+              source: "manual",
+              editedBy: user.uid,
+              editReason: `Imported from ${importFileName}`,
+              timeZone: settings.timeZone,
+              updatedAt: serverTimestamp(),
+            },
+            p.segments
+          ),
+          mealTimesForDate(mealSchedules, p.date)
+        );
+        const data = { ...stripUndefined(merged), baseRev: base.rev ?? 0, rev: increment(1) };
+
+        ops.push((b) =>
+          b.set(doc(db, "daycares", daycareId, "records", id), data, { mergeFields: Object.keys(data) })
+        );
+        ops.push((b) =>
+          b.set(
+            historyRef(id),
+            historyEntry(user, id, "import", stored ? snapshotOf(base) : null, merged, `Imported from ${importFileName}`)
+          )
+        );
+        ops.push(...rollupOps([[stored, merged]]));
+      }
+
+      await commitInChunks(ops);
+      cancelImport();
+      setImportStatus(`Imported ${importPlan.rows.length} record(s) ✓`);
+      setTimeout(() => setImportStatus(""), 2500);
+    } catch (e) {
+      console.error("IMPORT FAILED:", e);
+      setImportStatus("");
+      alert("Import failed. See console for error.");
+    }
+  }
+
+  function exportExcel() {
+    if (!reportRange && !confirm("No records are loaded under Reports. Export the summaries only?")) return;
+    const recordsWithReimb = rangeRecords.map((r) => {
+      const { snacks, amount, incomplete, rates } = reimbursementFor(r, ratePeriods);
+
+      return {
+        ...r,
+        segments: segmentsOf(r)
+          .map((seg) => `${seg.in}-${seg.out}`)
+          .join("; "),
+        mealOverrides: formatOverrides(r.mealOverrides),
+        signatures: formatSignatures(r.signatures),
+        snacks,
+        incomplete: incomplete ? "missing check-out" : "",
+        reimbursement: round2(amount),
+        ratePeriodUsed: rates.startDate,
+      };
+    });
+
+    const ws1 = XLSX.utils.json_to_sheet(recordsWithReimb);
+    const ws2 = XLSX.utils.json_to_sheet(
+      monthlySummary.map((r) => ({ ...r, status: lockedMonths.has(r.month) ? "locked" : "open" }))
+    );
+    const ws3 = XLSX.utils.json_to_sheet(annualSummary);
+    const wsPeaks = XLSX.utils.json_to_sheet(
+      dailyPeaks.map((p) => ({
+        Date: p.date,
+        "Peak Attendance": p.count,
+        "First Reached": p.at,
+        "Licensed Capacity": settings.licensedCapacity || "",
+      }))
+    );
+
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, ws1, "Records");
+    XLSX.utils.book_append_sheet(wb, ws2, "Monthly Summary");
+    XLSX.utils.book_append_sheet(wb, ws3, "Annual Summary");
+    XLSX.utils.book_append_sheet(wb, wsPeaks, "Daily Peak");
+
+    // Billing through the month shown in the Tuition Billing card, once loaded
+    if (can.viewBilling && billingReady) {
+      const billed = invoices.filter((i) => i.charges || i.paid || i.previousBalance || i.balance);
+      const ws4 = XLSX.utils.json_to_sheet(
+        billed.map((i) => ({
+          family: i.familyName,
+          month: i.month,
+          previousBalance: i.previousBalance,
+          charges: i.charges,
+          paid: i.paid,
+          balance: i.balance,
+          incompleteNotBilled: i.incompleteExcluded,
+        }))
+      );
+      const ws5 = XLSX.utils.json_to_sheet(
+        billed.flatMap((i) =>
+          i.lines.map((l) => ({ family: i.familyName, month: i.month, ...l }))
+        )
+      );
+      XLSX.utils.book_append_sheet(wb, ws4, "Invoices");
+      XLSX.utils.book_append_sheet(wb, ws5, "Invoice Lines");
+    }
+
+    if (absenceReport.length) {
+      const wsAbs = XLSX.utils.json_to_sheet(
+        absenceReport.map((a) => ({
+          Child: a.kidName,
+          Month: a.month,
+          "Scheduled Days": a.scheduledDays,
+          "Days Attended": a.attendedDays,
+          Sick: a.sick,
+          Vacation: a.vacation,
+          "No-show": a.noShow,
+          "Not Marked": a.unmarked,
+        }))
+      );
+      XLSX.utils.book_append_sheet(wb, wsAbs, "Absences");
+    }
+
+    // Payroll: weekly totals plus the shifts behind them
+    if (can.viewBilling && rangeTime.length) {
+      const wsHours = XLSX.utils.json_to_sheet(
+        staffHours.map((w) => ({
+          Staff: w.staffName,
+          "Week Of": w.week,
+          Hours: round2(w.minutes / 60),
+          "Regular Hours": round2((w.minutes - w.overtimeMinutes) / 60),
+          "Overtime Hours": round2(w.overtimeMinutes / 60),
+          "Still Clocked In": w.openDays ? `${w.openDays} day(s)` : "",
+        }))
+      );
+      const wsTime = XLSX.utils.json_to_sheet(
+        rangeTime.map((t) => ({
+          Staff: t.staffName,
+          Date: t.date,
+          Shifts: segmentsOf(t)
+            .map((seg) => `${seg.in}-${seg.out}`)
+            .join("; "),
+          Hours: round2(minutesPresent(t) / 60),
+          Source: t.source ?? "",
+          "Edit Reason": t.source === "manual" ? t.editReason ?? "" : "",
+        }))
+      );
+      XLSX.utils.book_append_sheet(wb, wsHours, "Payroll Hours");
+      XLSX.utils.book_append_sheet(wb, wsTime, "Staff Time");
+    }
+    XLSX.writeFile(wb, "daycare.xlsx");
+  }
+
+  const todaysKids = useMemo(() => kids.filter((k) => k.active), [kids]);
+  const inactiveKids = useMemo(() => kids.filter((k) => !k.active), [kids]);
+
+  // Families with at least two active children get a one-tap card
+  const familyGroups = useMemo(
+    () =>
+      families
+        .map((family) => ({ family, members: todaysKids.filter((k) => k.familyId === family.id) }))
+        .filter((g) => g.members.length >= 2),
+    [families, todaysKids]
+  );
+
+  // Children still checked in on the selected date
+  const stillCheckedIn = todaysKids.filter((k) => openSegment(recMap.get(`${date}_${k.id}`)));
+
+  // Scheduled today, past expected arrival plus the grace period, not here and not marked absent
+  const expectedNotArrived = useMemo(
+    () =>
+      date === today(settings.timeZone)
+        ? notArrived(todaysKids, recMap, absenceMap, closureMap, date, clockNow, settings.arrivalGraceMin)
+        : [],
+    [todaysKids, recMap, absenceMap, closureMap, date, clockNow, settings.timeZone, settings.arrivalGraceMin]
+  );
+
+  // Open records on any other date, oldest first
+  const incompleteElsewhere = useMemo(
+    () => openRecords.filter((r) => r.date !== date).sort((a, b) => a.date.localeCompare(b.date)),
+    [openRecords, date]
+  );
+
+  if (!user) {
+    return (
+      <div style={{ padding: 20, fontFamily: "sans-serif", background: COLORS.bgPage, minHeight: "100vh" }}>
+        <h2 style={{ color: COLORS.header }}>Daycare Check-In</h2>
+        <button style={buttonStyle("primary")} onClick={() => signInWithPopup(auth, provider)}>
+          Sign in with Google
+        </button>
+      </div>
+    );
+  }
+
+  if (!daycareId || role === undefined) {
+    return (
+      <div style={{ padding: 20, fontFamily: "sans-serif", background: COLORS.bgPage, minHeight: "100vh" }}>
+        <h2 style={{ color: COLORS.header }}>Daycare Check-In</h2>
+        <div style={{ color: COLORS.muted }}>Loading your daycare…</div>
+      </div>
+    );
+  }
+
+  if (role === null) {
+    return (
+      <div style={{ padding: 20, fontFamily: "sans-serif", background: COLORS.bgPage, minHeight: "100vh" }}>
+        <h2 style={{ color: COLORS.header }}>Daycare Check-In</h2>
+        <div style={{ color: COLORS.muted }}>
+          {user.email} is no longer a member of this daycare. Ask the owner for a new invite.
+        </div>
+        <button style={{ ...buttonStyle("neutral"), marginTop: 10 }} onClick={() => signOut(auth)}>
+          Sign out
+        </button>
+      </div>
+    );
+  }
+
+  if (kioskMode) {
+    const on = today(settings.timeZone);
+    return (
+      <div style={{ padding: 20, fontFamily: "sans-serif", background: COLORS.bgPage, minHeight: "100vh" }}>
+        <div style={{ display: "flex", gap: 10, alignItems: "center" }}>
+          <h2 style={{ margin: 0, color: COLORS.header }}>Sign In / Sign Out</h2>
+          <span style={{ color: COLORS.muted }}>{on}</span>
+          <button style={{ ...buttonStyle("neutral"), marginLeft: "auto" }} onClick={exitKiosk}>
+            Staff: exit kiosk
+          </button>
+        </div>
+
+        {kioskStatus ? (
+          <div
+            style={{
+              marginTop: 12,
+              fontSize: 16,
+              padding: "8px 12px",
+              borderRadius: 8,
+              background: COLORS.infoBg,
+              color: COLORS.infoText,
+              border: `1px solid ${COLORS.border}`,
+            }}
+          >
+            {kioskStatus}
+          </div>
+        ) : null}
+
+        {!kioskFamily ? (
+          <div style={{ marginTop: 16, ...cardStyle() }}>
+            <div style={{ color: COLORS.header, fontSize: 18, marginBottom: 10 }}>Enter your family PIN</div>
+            <input
+              type="password"
+              inputMode="numeric"
+              autoComplete="off"
+              autoFocus
+              value={kioskPin}
+              onChange={(e) => setKioskPin(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") kioskLookup();
+              }}
+              style={{
+                padding: 12,
+                fontSize: 24,
+                width: 200,
+                letterSpacing: 8,
+                borderRadius: 10,
+                border: `1px solid ${COLORS.border}`,
+                background: "#fff",
+              }}
+            />
+            <button style={{ ...buttonStyle("primary"), marginLeft: 10 }} onClick={kioskLookup}>
+              Continue
+            </button>
+          </div>
+        ) : (
+          <div style={{ marginTop: 16, ...cardStyle() }}>
+            <div style={{ color: COLORS.header, fontSize: 18, fontWeight: 600 }}>Hello, {kioskFamily.guardian}</div>
+
+            {kioskFamily.kidIds.map((id) => {
+              const k = kids.find((x) => x.id === id);
+              if (!k) return null;
+              const here = openSegment(recMap.get(`${on}_${id}`));
+              return (
+                <label key={id} style={{ display: "flex", gap: 10, alignItems: "center", marginTop: 12, fontSize: 18 }}>
+                  <input
+                    type="checkbox"
+                    checked={kioskSelected.includes(id)}
+                    onChange={(e) =>
+                      setKioskSelected(
+                        e.target.checked ? [...kioskSelected, id] : kioskSelected.filter((x) => x !== id)
+                      )
+                    }
+                    style={{ width: 22, height: 22 }}
+                  />
+                  <span style={{ color: COLORS.header, minWidth: 180 }}>{k.name}</span>
+                  <span style={{ fontSize: 14, color: here ? COLORS.danger : COLORS.success }}>
+                    {here ? `here since ${here.in} · will sign out` : "will sign in"}
+                  </span>
+                </label>
+              );
+            })}
+
+            <label style={{ display: "flex", gap: 6, alignItems: "center", color: COLORS.header, marginTop: 16 }}>
+              Your name:
+              <input
+                type="text"
+                value={kioskSigner}
+                onChange={(e) => setKioskSigner(e.target.value)}
+                style={{
+                  padding: 8,
+                  width: 240,
+                  borderRadius: 10,
+                  border: `1px solid ${COLORS.border}`,
+                  background: "#fff",
+                }}
+              />
+            </label>
+            <div style={{ marginTop: 12, marginBottom: 4, fontSize: 13, color: COLORS.muted }}>Sign below</div>
+            <SignaturePad onChange={setKioskSignature} />
+
+            <div style={{ display: "flex", gap: 8, marginTop: 12 }}>
+              <button style={buttonStyle("success")} onClick={kioskSubmit}>
+                Sign &amp; Submit
+              </button>
+              <button style={buttonStyle("neutral")} onClick={() => resetKiosk("")}>
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  if (profileDraft) {
+    return (
+      <div
+        style={{
+          padding: 20,
+          fontFamily: "sans-serif",
+          background: COLORS.bgPage,
+          minHeight: "100vh",
+        }}
+      >
+        <div style={{ display: "flex", gap: 10, alignItems: "center" }}>
+          <button style={buttonStyle("neutral")} onClick={() => setProfileDraft(null)}>
+            ← Back
+          </button>
+          <h2 style={{ margin: 0, color: COLORS.header }}>{profileDraft.name}</h2>
+          {profileStatus ? (
+            <span
+              style={{
+                fontSize: 12,
+                padding: "4px 8px",
+                borderRadius: 8,
+                background: COLORS.infoBg,
+                color: COLORS.infoText,
+                border: `1px solid ${COLORS.border}`,
+              }}
+            >
+              {profileStatus}
+            </span>
+          ) : null}
+        </div>
+
+        <div style={{ marginTop: 16, ...cardStyle() }}>
+          <h3 style={{ marginTop: 0, color: COLORS.header }}>Name</h3>
+          <div style={{ display: "flex", gap: 12, flexWrap: "wrap", alignItems: "center" }}>
+            <input
+              value={renameValue}
+              onChange={(e) => setRenameValue(e.target.value)}
+              style={{
+                padding: 8,
+                width: 220,
+                borderRadius: 10,
+                border: `1px solid ${COLORS.border}`,
+                background: "#fff",
+              }}
+            />
+            <label style={{ display: "flex", gap: 6, alignItems: "center", color: COLORS.header, fontSize: 13 }}>
+              <input
+                type="checkbox"
+                checked={renameRecords}
+                onChange={(e) => setRenameRecords(e.target.checked)}
+              />
+              Also update the name on existing records
+            </label>
+            <button
+              style={buttonStyle("primary")}
+              disabled={!can.manageKids || !renameValue.trim() || renameValue.trim() === profileDraft.name}
+              onClick={() => {
+                const kid = kids.find((k) => k.id === profileDraft.id);
+                if (kid) renameKid(kid, renameValue, renameRecords);
+              }}
+            >
+              Rename
+            </button>
+          </div>
+          <div style={{ marginTop: 8, fontSize: 12, color: COLORS.muted }}>
+            Leave the box unchecked to keep the old name on past records as it was at the time.
+          </div>
+        </div>
+
+        <div style={{ marginTop: 16, ...cardStyle() }}>
+          <h3 style={{ marginTop: 0, color: COLORS.header }}>Dates</h3>
+          <div style={{ display: "flex", gap: 12, flexWrap: "wrap" }}>
+            <label style={{ display: "flex", gap: 6, alignItems: "center", color: COLORS.header }}>
+              Date of birth:
+              <input
+                type="date"
+                value={profileDraft.birthDate ?? ""}
+                onChange={(e) => setProfileDraft({ ...profileDraft, birthDate: e.target.value })}
+                style={{
+                  padding: 8,
+                  width: 160,
+                  borderRadius: 10,
+                  border: `1px solid ${COLORS.border}`,
+                  background: "#fff",
+                }}
+              />
+            </label>
+            <label style={{ display: "flex", gap: 6, alignItems: "center", color: COLORS.header }}>
+              Enrolled from:
+              <input
+                type="date"
+                value={profileDraft.enrollStart ?? ""}
+                onChange={(e) => setProfileDraft({ ...profileDraft, enrollStart: e.target.value })}
+                style={{
+                  padding: 8,
+                  width: 160,
+                  borderRadius: 10,
+                  border: `1px solid ${COLORS.border}`,
+                  background: "#fff",
+                }}
+              />
+            </label>
+            <label style={{ display: "flex", gap: 6, alignItems: "center", color: COLORS.header }}>
+              Enrolled until:
+              <input
+                type="date"
+                value={profileDraft.enrollEnd ?? ""}
+                onChange={(e) => setProfileDraft({ ...profileDraft, enrollEnd: e.target.value })}
+                style={{
+                  padding: 8,
+                  width: 160,
+                  borderRadius: 10,
+                  border: `1px solid ${COLORS.border}`,
+                  background: "#fff",
+                }}
+              />
+            </label>
+          </div>
+          <div style={{ marginTop: 8, fontSize: 12, color: COLORS.muted }}>
+            Check-ins are blocked outside the enrolled period. Leave “Enrolled until” blank while the child is still enrolled.
+          </div>
+        </div>
+
+        <div style={{ marginTop: 16, ...cardStyle() }}>
+          <h3 style={{ marginTop: 0, color: COLORS.header }}>Expected Schedule</h3>
+          {[1, 2, 3, 4, 5, 6, 0].map((day) => {
+            const key = String(day);
+            const t = profileDraft.schedule?.[key];
+            const setDay = (next: { in: string; out: string } | null) => {
+              const others = Object.fromEntries(Object.entries(profileDraft.schedule ?? {}).filter(([d]) => d !== key));
+              setProfileDraft({ ...profileDraft, schedule: next ? { ...others, [key]: next } : others });
+            };
+            return (
+              <div key={day} style={{ display: "flex", gap: 8, alignItems: "center", marginTop: 6, flexWrap: "wrap" }}>
+                <label style={{ display: "flex", gap: 6, alignItems: "center", color: COLORS.header, minWidth: 120 }}>
+                  <input
+                    type="checkbox"
+                    checked={!!t}
+                    onChange={(e) => setDay(e.target.checked ? { in: "08:00", out: "17:00" } : null)}
+                  />
+                  {WEEKDAY_LABELS[day]}
+                </label>
+                {t && (
+                  <>
+                    <input
+                      type="time"
+                      value={t.in}
+                      onChange={(e) => setDay({ ...t, in: e.target.value })}
+                      style={{ padding: 6, borderRadius: 8, border: `1px solid ${COLORS.border}` }}
+                    />
+                    to
+                    <input
+                      type="time"
+                      value={t.out}
+                      onChange={(e) => setDay({ ...t, out: e.target.value })}
+                      style={{ padding: 6, borderRadius: 8, border: `1px solid ${COLORS.border}` }}
+                    />
+                  </>
+                )}
+              </div>
+            );
+          })}
+          <div style={{ marginTop: 8, fontSize: 12, color: COLORS.muted }}>
+            Scheduled children who haven't arrived {settings.arrivalGraceMin} minutes after their expected time show
+            under Here Now, and days they miss count toward absence reports.
+          </div>
+        </div>
+
+        <div style={{ marginTop: 16, ...cardStyle() }}>
+          <h3 style={{ marginTop: 0, color: COLORS.header }}>Family</h3>
+          <select
+            value={profileDraft.familyId ?? ""}
+            onChange={async (e) => {
+              let familyId = e.target.value;
+              if (familyId === "__new__") {
+                const name = prompt("New family name:", `${profileDraft.name.split(" ").slice(-1)[0]} family`);
+                familyId = (name && (await createFamily(name))) || profileDraft.familyId || "";
+              }
+              setProfileDraft({ ...profileDraft, familyId });
+            }}
+            style={{
+              padding: 8,
+              borderRadius: 10,
+              border: `1px solid ${COLORS.border}`,
+              background: "#fff",
+            }}
+          >
+            <option value="">(no family)</option>
+            {families.map((f) => (
+              <option key={f.id} value={f.id}>
+                {f.name}
+              </option>
+            ))}
+            <option value="__new__">+ New family…</option>
+          </select>
+          {profileDraft.familyId ? (
+            <span style={{ marginLeft: 10, fontSize: 13, color: COLORS.muted }}>
+              Siblings:{" "}
+              {kids
+                .filter((k) => k.familyId === profileDraft.familyId && k.id !== profileDraft.id)
+                .map((k) => k.name)
+                .join(", ") || "none yet"}
+            </span>
+          ) : null}
+        </div>
+
+        <div style={{ marginTop: 16, ...cardStyle() }}>
+          <h3 style={{ marginTop: 0, color: COLORS.header }}>Guardians</h3>
+          {(profileDraft.guardians ?? []).map((g, idx) => (
+            <div key={idx} style={{ display: "flex", gap: 8, flexWrap: "wrap", marginBottom: 8 }}>
+              {(
+                [
+                  ["name", "Name", "text"],
+                  ["relationship", "Relationship", "text"],
+                  ["phone", "Phone", "tel"],
+                  ["email", "Email", "email"],
+                ] as const
+              ).map(([f, placeholder, type]) => (
+                <input
+                  key={f}
+                  type={type}
+                  placeholder={placeholder}
+                  value={g[f]}
+                  onChange={(e) => setGuardianField(idx, f, e.target.value)}
+                  style={{
+                    padding: 8,
+                    width: 180,
+                    borderRadius: 10,
+                    border: `1px solid ${COLORS.border}`,
+                    background: "#fff",
+                  }}
+                />
+              ))}
+              <input
+                type="password"
+                inputMode="numeric"
+                autoComplete="off"
+                placeholder={g.hasPin || g.pinHash ? "Kiosk PIN (set, type to change)" : "Kiosk PIN"}
+                value={g.pin ?? ""}
+                onChange={(e) => setGuardianField(idx, "pin", e.target.value)}
+                style={{
+                  padding: 8,
+                  width: 180,
+                  borderRadius: 10,
+                  border: `1px solid ${COLORS.border}`,
+                  background: "#fff",
+                }}
+              />
+              {(g.hasPin || g.pinHash) && (
+                <button
+                  style={buttonStyle("neutral")}
+                  onClick={() =>
+                    setProfileDraft({
+                      ...profileDraft,
+                      guardians: (profileDraft.guardians ?? []).map((o, j) =>
+                        j === idx ? { ...o, hasPin: false, pinHash: "", pinSalt: "" } : o
+                      ),
+                    })
+                  }
+                >
+                  Remove PIN
+                </button>
+              )}
+              <button
+                style={buttonStyle("neutral")}
+                onClick={() =>
+                  setProfileDraft({
+                    ...profileDraft,
+                    guardians: (profileDraft.guardians ?? []).filter((_, j) => j !== idx),
+                  })
+                }
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+          <button
+            style={buttonStyle("neutral")}
+            onClick={() =>
+              setProfileDraft({
+                ...profileDraft,
+                guardians: [
+                  ...(profileDraft.guardians ?? []),
+                  { name: "", relationship: "", phone: "", email: "" },
+                ],
+              })
+            }
+          >
+            + Add guardian
+          </button>
+        </div>
+
+        <div style={{ marginTop: 16, ...cardStyle() }}>
+          <h3 style={{ marginTop: 0, color: COLORS.header }}>Tuition</h3>
+          <div style={{ display: "flex", gap: 12, flexWrap: "wrap", alignItems: "center" }}>
+            <select
+              value={profileDraft.tuition?.kind ?? ""}
+              disabled={!can.manageBilling}
+              onChange={(e) => {
+                const kind = e.target.value as TuitionPlan["kind"] | "";
+                setProfileDraft({
+                  ...profileDraft,
+                  tuition: kind ? { rate: 0, discountPct: 0, ...profileDraft.tuition, kind } : null,
+                });
+              }}
+              style={{
+                padding: 8,
+                borderRadius: 10,
+                border: `1px solid ${COLORS.border}`,
+                background: "#fff",
+              }}
+            >
+              <option value="">Not billed</option>
+              {(Object.keys(TUITION_KIND_LABELS) as TuitionPlan["kind"][]).map((k) => (
+                <option key={k} value={k}>
+                  {TUITION_KIND_LABELS[k]}
+                </option>
+              ))}
+            </select>
+            {profileDraft.tuition && (
+              <>
+                <label style={{ display: "flex", gap: 6, alignItems: "center", color: COLORS.header }}>
+                  Rate ($):
+                  <input
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    value={profileDraft.tuition.rate}
+                    disabled={!can.manageBilling}
+                    onChange={(e) =>
+                      setProfileDraft({
+                        ...profileDraft,
+                        tuition: { ...profileDraft.tuition!, rate: Number(e.target.value) },
+                      })
+                    }
+                    style={{
+                      padding: 8,
+                      width: 100,
+                      borderRadius: 10,
+                      border: `1px solid ${COLORS.border}`,
+                      background: "#fff",
+                    }}
+                  />
+                </label>
+                <label style={{ display: "flex", gap: 6, alignItems: "center", color: COLORS.header }}>
+                  Discount (%):
+                  <input
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={profileDraft.tuition.discountPct}
+                    disabled={!can.manageBilling}
+                    onChange={(e) =>
+                      setProfileDraft({
+                        ...profileDraft,
+                        tuition: { ...profileDraft.tuition!, discountPct: Number(e.target.value) },
+                      })
+                    }
+                    style={{
+                      padding: 8,
+                      width: 80,
+                      borderRadius: 10,
+                      border: `1px solid ${COLORS.border}`,
+                      background: "#fff",
+                    }}
+                  />
+                </label>
+              </>
+            )}
+          </div>
+          {(profileDraft.tuitionHistory ?? []).some((v) => v.effectiveFrom) && (
+            <div style={{ marginTop: 8, fontSize: 13, color: COLORS.muted }}>
+              {profileDraft.tuitionHistory!
+                .filter((v) => v.effectiveFrom)
+                .map(
+                  (v) =>
+                    `From ${v.effectiveFrom}: ${
+                      v.plan
+                        ? `${TUITION_KIND_LABELS[v.plan.kind]} $${v.plan.rate}` +
+                          (v.plan.discountPct ? ` less ${v.plan.discountPct}%` : "")
+                        : "not billed"
+                    }`
+                )
+                .join(" · ")}
+            </div>
+          )}
+        </div>
+
+        <div style={{ marginTop: 16, ...cardStyle() }}>
+          <h3 style={{ marginTop: 0, color: COLORS.header }}>Health & Notes</h3>
+          <div style={{ display: "flex", flexDirection: "column", gap: 10 }}>
+            <label style={{ display: "flex", gap: 6, alignItems: "center", color: COLORS.header }}>
+              Allergies (comma-separated):
+              <input
+                type="text"
+                value={profileDraft.allergiesText ?? ""}
+                onChange={(e) => setProfileDraft({ ...profileDraft, allergiesText: e.target.value })}
+                style={{
+                  padding: 8,
+                  width: 360,
+                  borderRadius: 10,
+                  border: `1px solid ${COLORS.border}`,
+                  background: "#fff",
+                }}
+              />
+            </label>
+            {(
+              [
+                ["dietaryNotes", "Dietary notes"],
+                ["notes", "Notes"],
+              ] as const
+            ).map(([f, label]) => (
+              <label key={f} style={{ display: "flex", flexDirection: "column", gap: 4, color: COLORS.header }}>
+                {label}:
+                <textarea
+                  value={profileDraft[f] ?? ""}
+                  onChange={(e) => setProfileDraft({ ...profileDraft, [f]: e.target.value })}
+                  rows={3}
+                  style={{
+                    padding: 8,
+                    maxWidth: 560,
+                    borderRadius: 10,
+                    border: `1px solid ${COLORS.border}`,
+                    background: "#fff",
+                    fontFamily: "inherit",
+                  }}
+                />
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div style={{ marginTop: 16 }}>
+          <button style={buttonStyle("primary")} disabled={!can.editProfiles} onClick={saveProfile}>
+            Save Profile
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div
+      style={{
+        padding: 20,
+        fontFamily: "sans-serif",
+        background: COLORS.bgPage,
+        minHeight: "100vh",
       }}
     >
       <div style={{ display: "flex", gap: 10, alignItems: "center" }}>
@@ -637,8 +4754,1205 @@ export default function App() {
             gap: 10,
             alignItems: "center",
           }}
-        >
-          {saveStatus ? (
+        >
+          <span
+            title={online ? "Connected" : "Offline: changes are saved on this device and sync when back online"}
+            style={{
+              fontSize: 12,
+              padding: "4px 8px",
+              borderRadius: 8,
+              background: online ? "#dcfce7" : "#fef3c7",
+              color: online ? COLORS.success : "#92400e",
+              border: `1px solid ${COLORS.border}`,
+            }}
+          >
+            {online ? "● Online" : "● Offline"}
+            {pendingWrites > 0
+              ? ` · ${pendingWrites} pending`
+              : !queueDrained
+                ? " · waiting to sync"
+                : online
+                  ? " · synced"
+                  : ""}
+          </span>
+          <span
+            style={{
+              fontSize: 12,
+              padding: "4px 8px",
+              borderRadius: 8,
+              background: "#fff",
+              color: COLORS.header,
+              border: `1px solid ${COLORS.border}`,
+            }}
+          >
+            {ROLE_LABELS[role]}
+          </span>
+          {saveStatus ? (
+            <span
+              style={{
+                fontSize: 12,
+                padding: "4px 8px",
+                borderRadius: 8,
+                background: COLORS.infoBg,
+                color: COLORS.infoText,
+                border: `1px solid ${COLORS.border}`,
+              }}
+            >
+              {saveStatus}
+            </span>
+          ) : null}
+          {can.checkInOut && (
+            <button style={buttonStyle("neutral")} onClick={enterKiosk}>
+              Kiosk mode
+            </button>
+          )}
+          <button style={buttonStyle("neutral")} onClick={() => signOut(auth)}>
+            Sign out
+          </button>
+        </div>
+      </div>
+
+      <div style={{ marginTop: 10 }}>
+        <input
+          type="date"
+          value={date}
+          onChange={(e) => {
+            setDate(e.target.value);
+            setEditingKidId(null);
+            setHistoryKidId(null);
+            setSaveStatus("");
+          }}
+          style={{
+            padding: 8,
+            borderRadius: 10,
+            border: `1px solid ${COLORS.border}`,
+            background: "#fff",
+          }}
+        />
+        {lockedMonths.has(monthFromDate(date)) && (
+          <span
+            style={{
+              marginLeft: 8,
+              fontSize: 12,
+              padding: "4px 8px",
+              borderRadius: 8,
+              background: COLORS.infoBg,
+              color: COLORS.infoText,
+              border: `1px solid ${COLORS.border}`,
+            }}
+          >
+            🔒 {monthFromDate(date)} is closed
+          </span>
+        )}
+        {closureMap.has(date) && (
+          <span
+            style={{
+              marginLeft: 8,
+              fontSize: 12,
+              fontWeight: 700,
+              padding: "4px 8px",
+              borderRadius: 8,
+              background: isClosedOn(closureMap, date) ? "#fee2e2" : COLORS.infoBg,
+              color: isClosedOn(closureMap, date) ? COLORS.danger : COLORS.infoText,
+              border: `1px solid ${COLORS.border}`,
+            }}
+          >
+            {CLOSURE_KIND_LABELS[closureMap.get(date)!.kind]}: {closureMap.get(date)!.label}
+            {isClosedOn(closureMap, date) ? "" : ` (closing ${dayClosingTime})`}
+          </span>
+        )}
+        {[...new Set([...conflicts, ...timeConflicts].map((c) => c.date))]
+          .filter((d) => d !== date)
+          .map((d) => (
+            <button
+              key={d}
+              title="A change on this date conflicted and is waiting for review"
+              style={{ ...buttonStyle("neutral"), marginLeft: 8, fontSize: 12, padding: "4px 8px" }}
+              onClick={() => setDate(d)}
+            >
+              ⚠ Conflict on {d}
+            </button>
+          ))}
+      </div>
+
+      {/* FAMILIES: siblings in one tap */}
+      {can.checkInOut && canEditOn(date) && familyGroups.length > 0 && (
+        <div style={{ marginTop: 14, display: "flex", gap: 12, flexWrap: "wrap" }}>
+          {familyGroups.map(({ family, members }) => {
+            const here = members.filter((k) => openSegment(recMap.get(`${date}_${k.id}`)));
+            const away = members.filter((k) => !here.includes(k) && !enrollmentProblem(k, date));
+            return (
+              <div key={family.id} style={cardStyle({ minWidth: 260 })}>
+                <div style={{ color: COLORS.header, fontWeight: 700 }}>{family.name}</div>
+                <div style={{ marginTop: 4, fontSize: 13, color: COLORS.muted }}>
+                  {members.map((k) => `${k.name}${here.includes(k) ? " (here)" : ""}`).join(", ")}
+                </div>
+                <div style={{ display: "flex", gap: 8, marginTop: 8 }}>
+                  {away.length > 0 && (
+                    <button style={buttonStyle("success")} onClick={() => checkInSiblings(away)}>
+                      Check In {away.length === members.length ? "all" : away.length}
+                    </button>
+                  )}
+                  {here.length > 0 && (
+                    <button style={buttonStyle("danger")} onClick={() => checkOutSiblings(here)}>
+                      Check Out {here.length === members.length ? "all" : here.length}
+                    </button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* CLOCK-IN/CLOCK-OUT FIRST */}
+      <div style={{ marginTop: 14 }}>
+        {todaysKids.map((k) => {
+          const r = recMap.get(`${date}_${k.id}`);
+          const isEditing = editingKidId === k.id;
+          const expected = expectedOn(k, date, closureMap);
+          const absence = absenceMap.get(`${date}_${k.id}`);
+
+          return (
+            <div key={k.id} style={cardStyle({ marginBottom: 12 })}>
+              <div
+                style={{
+                  display: "flex",
+                  gap: 8,
+                  alignItems: "center",
+                  flexWrap: "wrap",
+                }}
+              >
+                <b
+                  style={{ fontSize: 16, color: COLORS.header, cursor: "pointer" }}
+                  title="Open profile"
+                  onClick={() => openProfile(k)}
+                >
+                  {k.name}
+                </b>
+
+                {(k.allergies ?? []).map((a) => (
+                  <span
+                    key={a}
+                    title={k.dietaryNotes || "Allergy"}
+                    style={{
+                      fontSize: 12,
+                      fontWeight: 700,
+                      padding: "3px 8px",
+                      borderRadius: 999,
+                      background: "#fee2e2",
+                      color: COLORS.danger,
+                      border: `1px solid ${COLORS.danger}`,
+                    }}
+                  >
+                    ⚠ {a}
+                  </span>
+                ))}
+
+                {absence ? (
+                  <span
+                    title={`Marked by ${absence.byEmail || "staff"}`}
+                    style={{
+                      fontSize: 12,
+                      fontWeight: 700,
+                      padding: "3px 8px",
+                      borderRadius: 999,
+                      background: COLORS.infoBg,
+                      color: COLORS.infoText,
+                      border: `1px solid ${COLORS.border}`,
+                    }}
+                  >
+                    Absent · {ABSENCE_REASON_LABELS[absence.reason]}
+                    {can.checkInOut && canEditOn(date) && (
+                      <span
+                        style={{ marginLeft: 6, cursor: "pointer" }}
+                        title="Clear absence"
+                        onClick={() => clearAbsence(k)}
+                      >
+                        ✕
+                      </span>
+                    )}
+                  </span>
+                ) : (
+                  expected &&
+                  segmentsOf(r).length === 0 && (
+                    <>
+                      <span style={{ fontSize: 12, color: COLORS.muted }}>
+                        Expected {expected.in}–{expected.out}
+                      </span>
+                      {can.checkInOut && canEditOn(date) && (
+                        <select
+                          value=""
+                          onChange={(e) => e.target.value && markAbsent(k, e.target.value as AbsenceReason)}
+                          style={{ padding: 6, borderRadius: 8, border: `1px solid ${COLORS.border}` }}
+                        >
+                          <option value="">Mark absent…</option>
+                          {(Object.keys(ABSENCE_REASON_LABELS) as AbsenceReason[]).map((reason) => (
+                            <option key={reason} value={reason}>
+                              {ABSENCE_REASON_LABELS[reason]}
+                            </option>
+                          ))}
+                        </select>
+                      )}
+                    </>
+                  )
+                )}
+
+                {can.checkInOut && canEditOn(date) && (
+                  <>
+                    <button style={buttonStyle("success")} onClick={() => checkIn(k)}>
+                      Check In
+                    </button>
+                    <button style={buttonStyle("danger")} onClick={() => checkOut(k)}>
+                      Check Out
+                    </button>
+                  </>
+                )}
+
+                {canEditOn(date) && (
+                  <button
+                    style={buttonStyle("warning")}
+                    onClick={() => {
+                      setEditingKidId(k.id);
+                      const segs = segmentsOf(r);
+                      setEditSegments(segs.length ? segs : [{ in: "", out: "" }]);
+                      setEditOverrides(r?.mealOverrides ?? {});
+                      setEditReason("");
+                      setSaveStatus("");
+                    }}
+                  >
+                    Edit Times
+                  </button>
+                )}
+
+                {canEditOn(date) && (segmentsOf(r).length > 0 || r?.inTime || r?.outTime) && (
+                  <button style={buttonStyle("neutral")} onClick={() => clearTimes(k)}>
+                    Clear
+                  </button>
+                )}
+
+                <button style={buttonStyle("neutral")} onClick={() => openProfile(k)}>
+                  Profile
+                </button>
+
+                <button
+                  style={buttonStyle("neutral")}
+                  onClick={() => {
+                    setHistory([]);
+                    setHistoryKidId(historyKidId === k.id ? null : k.id);
+                  }}
+                >
+                  History
+                </button>
+
+                {can.manageKids && (
+                  <button
+                    onClick={() => deactivateKid(k)}
+                    title="Hide from list but keep history"
+                    style={{
+                      padding: "8px 10px",
+                      borderRadius: 8,
+                      cursor: "pointer",
+                      fontWeight: 700,
+                      fontSize: 13,
+                      background: "#fee2e2",
+                      color: COLORS.danger,
+                      border: `1px solid ${COLORS.danger}`,
+                    }}
+                  >
+                    Deactivate
+                  </button>
+                )}
+              </div>
+
+              <div style={{ marginTop: 8, color: COLORS.muted, fontSize: 13 }}>
+                {segmentsOf(r).length === 0 ? (
+                  <>
+                    <span style={{ color: COLORS.header, fontWeight: 600 }}>In:</span> -{" "}
+                    <span style={{ color: COLORS.header, fontWeight: 600 }}>Out:</span> -{" "}
+                  </>
+                ) : (
+                  segmentsOf(r).map((seg, idx) => (
+                    <span key={idx} style={{ marginRight: 8 }}>
+                      <span style={{ color: COLORS.header, fontWeight: 600 }}>In:</span> {seg.in}{" "}
+                      <span style={{ color: COLORS.header, fontWeight: 600 }}>Out:</span> {seg.out || "-"}
+                    </span>
+                  ))
+                )}
+                <span style={{ marginLeft: 10 }}>
+                  <span style={{ color: COLORS.header, fontWeight: 600 }}>Meals:</span>{" "}
+                  {(
+                    [
+                      ["breakfast", "B"],
+                      ["amSnack", "AM"],
+                      ["lunch", "L"],
+                      ["pmSnack", "PM"],
+                    ] as const
+                  ).map(([m, label]) => {
+                    const o = r?.mealOverrides?.[m];
+                    return (
+                      <span
+                        key={m}
+                        title={o ? `${o.status} — ${MEAL_OVERRIDE_REASONS[o.reason]}` : undefined}
+                        style={o ? { color: COLORS.warning, fontWeight: 700 } : undefined}
+                      >
+                        {label}:{r?.[m] || 0}
+                        {o ? "*" : ""}{" "}
+                      </span>
+                    );
+                  })}
+                </span>
+                {r?.source ? (
+                  <span style={{ marginLeft: 10, opacity: 0.8 }}>
+                    (source: {r.source})
+                  </span>
+                ) : null}
+              </div>
+
+              {r?.signatures?.length ? (
+                <div style={{ marginTop: 4, color: COLORS.muted, fontSize: 12 }}>
+                  ✍ {formatSignatures(r.signatures)}
+                </div>
+              ) : null}
+
+              {conflicts
+                .filter((c) => c.recordId === `${date}_${k.id}`)
+                .map((c) => (
+                  <div
+                    key={c.id}
+                    style={{
+                      marginTop: 8,
+                      display: "flex",
+                      gap: 8,
+                      alignItems: "center",
+                      flexWrap: "wrap",
+                      fontSize: 13,
+                      color: "#92400e",
+                      background: "#fef3c7",
+                      border: `1px solid ${COLORS.warning}`,
+                      padding: "6px 10px",
+                      borderRadius: 10,
+                    }}
+                  >
+                    ⚠ A change by {c.byEmail} at {new Date(c.clientAt).toLocaleTimeString()} conflicted with one
+                    from another device and was not applied:{" "}
+                    {diffSnapshots(r ? snapshotOf(r) : null, c.after)
+                      .map((d) => `${d.field} ${d.from} → ${d.to}`)
+                      .join("; ") || "no difference from the record as it is now"}
+                    {canEditOn(date) && (
+                      <>
+                        <button
+                          style={{ ...buttonStyle("neutral"), padding: "4px 8px" }}
+                          onClick={() => applyConflictCopy(k, c)}
+                        >
+                          Apply it
+                        </button>
+                        <button
+                          style={{ ...buttonStyle("neutral"), padding: "4px 8px" }}
+                          onClick={() => discardConflictCopy(c)}
+                        >
+                          Discard
+                        </button>
+                      </>
+                    )}
+                  </div>
+                ))}
+
+              {isEditing && (
+                <div
+                  style={{
+                    marginTop: 12,
+                    display: "flex",
+                    gap: 10,
+                    flexWrap: "wrap",
+                    alignItems: "center",
+                    background: "#f8fafc",
+                    border: `1px dashed ${COLORS.border}`,
+                    padding: 10,
+                    borderRadius: 12,
+                  }}
+                >
+                  {editSegments.map((seg, idx) => (
+                    <div
+                      key={idx}
+                      style={{ display: "flex", gap: 10, alignItems: "center", width: "100%" }}
+                    >
+                      <label style={{ display: "flex", gap: 6, alignItems: "center", color: COLORS.header }}>
+                        In:
+                        <input
+                          type="time"
+                          value={seg.in}
+                          onChange={(e) =>
+                            setEditSegments(
+                              editSegments.map((x, j) => (j === idx ? { ...x, in: e.target.value } : x))
+                            )
+                          }
+                          style={{
+                            padding: 8,
+                            borderRadius: 10,
+                            border: `1px solid ${COLORS.border}`,
+                            background: "#fff",
+                          }}
+                        />
+                      </label>
+
+                      <label style={{ display: "flex", gap: 6, alignItems: "center", color: COLORS.header }}>
+                        Out:
+                        <input
+                          type="time"
+                          value={seg.out}
+                          onChange={(e) =>
+                            setEditSegments(
+                              editSegments.map((x, j) => (j === idx ? { ...x, out: e.target.value } : x))
+                            )
+                          }
+                          style={{
+                            padding: 8,
+                            borderRadius: 10,
+                            border: `1px solid ${COLORS.border}`,
+                            background: "#fff",
+                          }}
+                        />
+                      </label>
+
+                      {editSegments.length > 1 && (
+                        <button
+                          style={buttonStyle("neutral")}
+                          onClick={() => setEditSegments(editSegments.filter((_, j) => j !== idx))}
+                        >
+                          Remove
+                        </button>
+                      )}
+                    </div>
+                  ))}
+
+                  <button
+                    style={buttonStyle("neutral")}
+                    onClick={() => setEditSegments([...editSegments, { in: "", out: "" }])}
+                  >
+                    + Add segment
+                  </button>
+
+                  <div style={{ display: "flex", gap: 12, flexWrap: "wrap", width: "100%" }}>
+                    {MEAL_KEYS.map((m) => {
+                      const o = editOverrides[m];
+                      return (
+                        <label
+                          key={m}
+                          style={{ display: "flex", gap: 6, alignItems: "center", color: COLORS.header, fontSize: 13 }}
+                        >
+                          {MEAL_LABELS[m]}:
+                          <select
+                            value={o?.status ?? "auto"}
+                            onChange={(e) => {
+                              const next = { ...editOverrides };
+                              if (e.target.value === "auto") delete next[m];
+                              else
+                                next[m] = {
+                                  status: e.target.value as MealOverride["status"],
+                                  reason: o?.reason ?? (e.target.value === "served" ? "served-outside-window" : "refused"),
+                                };
+                              setEditOverrides(next);
+                            }}
+                            style={{
+                              padding: 6,
+                              borderRadius: 8,
+                              border: `1px solid ${COLORS.border}`,
+                              background: "#fff",
+                            }}
+                          >
+                            <option value="auto">Auto</option>
+                            <option value="served">Served</option>
+                            <option value="not-served">Not served</option>
+                          </select>
+                          {o && (
+                            <select
+                              value={o.reason}
+                              onChange={(e) =>
+                                setEditOverrides({
+                                  ...editOverrides,
+                                  [m]: { ...o, reason: e.target.value as MealOverrideReason },
+                                })
+                              }
+                              style={{
+                                padding: 6,
+                                borderRadius: 8,
+                                border: `1px solid ${COLORS.border}`,
+                                background: "#fff",
+                              }}
+                            >
+                              {Object.entries(MEAL_OVERRIDE_REASONS).map(([code, label]) => (
+                                <option key={code} value={code}>
+                                  {label}
+                                </option>
+                              ))}
+                            </select>
+                          )}
+                        </label>
+                      );
+                    })}
+                  </div>
+
+                  <input
+                    placeholder="Reason (optional)"
+                    value={editReason}
+                    onChange={(e) => setEditReason(e.target.value)}
+                    style={{
+                      padding: 8,
+                      minWidth: 240,
+                      borderRadius: 10,
+                      border: `1px solid ${COLORS.border}`,
+                      background: "#fff",
+                    }}
+                  />
+
+                  <button style={buttonStyle("primary")} onClick={async () => await saveManualTimes(k)}>
+                    Save
+                  </button>
+                  <button
+                    style={buttonStyle("neutral")}
+                    onClick={() => {
+                      setEditingKidId(null);
+                      setSaveStatus("");
+                    }}
+                  >
+                    Cancel
+                  </button>
+                </div>
+              )}
+
+              {historyKidId === k.id && (
+                <div
+                  style={{
+                    marginTop: 12,
+                    background: "#f8fafc",
+                    border: `1px solid ${COLORS.border}`,
+                    padding: 10,
+                    borderRadius: 12,
+                    fontSize: 13,
+                  }}
+                >
+                  <b style={{ color: COLORS.header }}>History for {date}</b>
+                  {history.length === 0 ? (
+                    <div style={{ marginTop: 6, color: COLORS.muted }}>No changes recorded.</div>
+                  ) : (
+                    history.map((h, idx) => (
+                      <div
+                        key={h.id}
+                        style={{ marginTop: 8, paddingTop: 8, borderTop: `1px solid ${COLORS.border}` }}
+                      >
+                        <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" }}>
+                          <span style={{ color: COLORS.header, fontWeight: 600 }}>
+                            {new Date(h.clientAt).toLocaleString()}
+                          </span>
+                          <span>{h.action}</span>
+                          <span style={{ color: COLORS.muted }}>
+                            by {h.byEmail || h.by}
+                            {h.deviceId && h.deviceId !== DEVICE_ID ? " (other device)" : ""}
+                          </span>
+                          {h.reason ? <span style={{ color: COLORS.muted }}>— “{h.reason}”</span> : null}
+                          {idx > 0 && canEditOn(date) && (
+                            <button
+                              style={{ ...buttonStyle("neutral"), marginLeft: "auto", padding: "4px 8px" }}
+                              onClick={() => revertToVersion(k, h)}
+                            >
+                              Revert to this version
+                            </button>
+                          )}
+                        </div>
+                        <ul style={{ margin: "4px 0 0", paddingLeft: 18, color: COLORS.muted }}>
+                          {diffSnapshots(h.before, h.after).map((d) => (
+                            <li key={d.field}>
+                              {d.field}: <s>{d.from}</s> → <b style={{ color: COLORS.header }}>{d.to}</b>
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    ))
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {/* HERE NOW: live headcount against capacity and ratios */}
+      <div style={{ marginBottom: 16, ...cardStyle() }}>
+        <div style={{ display: "flex", alignItems: "center", gap: 12, flexWrap: "wrap" }}>
+          <h3 style={{ margin: 0, color: COLORS.header }}>Here Now</h3>
+          <span
+            style={{
+              fontSize: 22,
+              fontWeight: 800,
+              color:
+                settings.licensedCapacity && liveCount.total > settings.licensedCapacity
+                  ? COLORS.danger
+                  : COLORS.header,
+            }}
+          >
+            {liveCount.total}
+            {settings.licensedCapacity ? ` / ${settings.licensedCapacity}` : ""}
+          </span>
+          {activeStaff.length ? (
+            <span style={{ color: COLORS.header, fontSize: 13 }}>
+              Staff on duty: <b>{staffOnDuty}</b>
+              {clockedIn.length > 0 && (
+                <span style={{ color: COLORS.muted }}> ({clockedIn.map((t) => t.staffName).join(", ")})</span>
+              )}
+            </span>
+          ) : (
+            <label style={{ display: "flex", gap: 6, alignItems: "center", color: COLORS.header, fontSize: 13 }}>
+              Staff on duty:
+              <input
+                type="number"
+                min={0}
+                value={staffOnDuty}
+                onChange={(e) => updateStaffOnDuty(Number(e.target.value))}
+                style={{ padding: 6, width: 60, borderRadius: 8, border: `1px solid ${COLORS.border}` }}
+              />
+            </label>
+          )}
+          <span
+            style={{
+              fontSize: 13,
+              fontWeight: 700,
+              color: liveCount.requiredStaff > staffOnDuty ? COLORS.danger : COLORS.success,
+            }}
+          >
+            Ratios need {liveCount.requiredStaff} staff
+          </span>
+        </div>
+
+        <div style={{ marginTop: 8, fontSize: 13, color: COLORS.muted, display: "flex", gap: 14, flexWrap: "wrap" }}>
+          {settings.ageGroups.map((g, i) => (
+            <span key={g.label}>
+              {g.label}: <b style={{ color: COLORS.header }}>{liveCount.byGroup[i] ?? 0}</b> (1:{g.childrenPerStaff})
+            </span>
+          ))}
+          {liveCount.unknownAge > 0 && (
+            <span style={{ color: COLORS.warning }}>
+              {liveCount.unknownAge} without a birth date (counted as {settings.ageGroups[0]?.label})
+            </span>
+          )}
+        </div>
+
+        {expectedNotArrived.length > 0 && (
+          <div style={{ marginTop: 8, fontSize: 13, color: COLORS.warning }}>
+            <b>Expected, not arrived:</b>{" "}
+            {expectedNotArrived.map((e) => `${e.kid.name} (${e.expected.in})`).join(", ")}
+          </div>
+        )}
+
+        {can.editSettings && (
+          <div style={{ marginTop: 10, display: "flex", gap: 10, alignItems: "center", flexWrap: "wrap", fontSize: 13 }}>
+            <label style={{ display: "flex", gap: 6, alignItems: "center", color: COLORS.header }}>
+              Licensed capacity:
+              <input
+                type="number"
+                min={0}
+                defaultValue={settings.licensedCapacity}
+                key={`cap-${settings.licensedCapacity}`}
+                onBlur={(e) => {
+                  const v = Number(e.target.value);
+                  if (v !== settings.licensedCapacity) saveLicensedCapacity(v);
+                }}
+                style={{ padding: 6, width: 70, borderRadius: 8, border: `1px solid ${COLORS.border}` }}
+              />
+            </label>
+            <label style={{ display: "flex", gap: 6, alignItems: "center", color: COLORS.header }}>
+              Not arrived after
+              <input
+                type="number"
+                min={0}
+                defaultValue={settings.arrivalGraceMin}
+                key={`grace-${settings.arrivalGraceMin}`}
+                onBlur={(e) => {
+                  const v = Number(e.target.value);
+                  if (v !== settings.arrivalGraceMin) saveArrivalGrace(v);
+                }}
+                style={{ padding: 6, width: 60, borderRadius: 8, border: `1px solid ${COLORS.border}` }}
+              />
+              min late
+            </label>
+            {!ratioDraft && (
+              <button style={buttonStyle("neutral")} onClick={() => setRatioDraft(settings.ageGroups)}>
+                Edit ratios
+              </button>
+            )}
+          </div>
+        )}
+
+        {ratioDraft && (
+          <div style={{ marginTop: 10, fontSize: 13 }}>
+            {ratioDraft.map((g, i) => (
+              <div key={i} style={{ display: "flex", gap: 8, alignItems: "center", marginTop: 6, flexWrap: "wrap" }}>
+                <input
+                  value={g.label}
+                  placeholder="Age group"
+                  onChange={(e) => setRatioField(i, "label", e.target.value)}
+                  style={{ padding: 6, width: 140, borderRadius: 8, border: `1px solid ${COLORS.border}` }}
+                />
+                {i < ratioDraft.length - 1 ? (
+                  <label style={{ display: "flex", gap: 4, alignItems: "center" }}>
+                    under
+                    <input
+                      type="number"
+                      min={1}
+                      value={g.maxMonths ?? ""}
+                      onChange={(e) => setRatioField(i, "maxMonths", e.target.value)}
+                      style={{ padding: 6, width: 60, borderRadius: 8, border: `1px solid ${COLORS.border}` }}
+                    />
+                    months
+                  </label>
+                ) : (
+                  <span style={{ color: COLORS.muted }}>and older</span>
+                )}
+                <label style={{ display: "flex", gap: 4, alignItems: "center" }}>
+                  1 staff :
+                  <input
+                    type="number"
+                    min={1}
+                    value={g.childrenPerStaff}
+                    onChange={(e) => setRatioField(i, "childrenPerStaff", e.target.value)}
+                    style={{ padding: 6, width: 60, borderRadius: 8, border: `1px solid ${COLORS.border}` }}
+                  />
+                  children
+                </label>
+                {ratioDraft.length > 1 && (
+                  <button
+                    style={{ ...buttonStyle("neutral"), padding: "4px 8px" }}
+                    onClick={() => setRatioDraft(ratioDraft.filter((_, j) => j !== i))}
+                  >
+                    Remove
+                  </button>
+                )}
+              </div>
+            ))}
+            <div style={{ display: "flex", gap: 8, marginTop: 8 }}>
+              <button
+                style={buttonStyle("neutral")}
+                onClick={() => setRatioDraft([...ratioDraft, { label: "", maxMonths: null, childrenPerStaff: 10 }])}
+              >
+                + Age group
+              </button>
+              <button style={buttonStyle("primary")} onClick={saveAgeGroups}>
+                Save ratios
+              </button>
+              <button style={buttonStyle("neutral")} onClick={() => setRatioDraft(null)}>
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* STAFF TIME CLOCK */}
+      {(activeStaff.length > 0 || can.manageStaff) && (
+        <div style={{ marginBottom: 16, ...cardStyle() }}>
+          <div style={{ display: "flex", alignItems: "center", gap: 10, flexWrap: "wrap" }}>
+            <h3 style={{ margin: 0, color: COLORS.header }}>Staff Time Clock</h3>
+            <span style={{ fontSize: 13, color: COLORS.muted }}>{date}</span>
+          </div>
+
+          {staffRoster.length === 0 ? (
+            <div style={{ marginTop: 8, fontSize: 13, color: COLORS.muted }}>
+              Add staff below to track their hours. Until then, staff on duty is entered by hand under Here Now.
+            </div>
+          ) : (
+            <table style={{ width: "100%", borderCollapse: "collapse", marginTop: 10, fontSize: 14 }}>
+              <thead>
+                <tr style={{ textAlign: "left", color: COLORS.header }}>
+                  <th style={{ padding: 6 }}>Name</th>
+                  <th style={{ padding: 6 }}>Shifts</th>
+                  <th style={{ padding: 6 }}>Hours</th>
+                  <th style={{ padding: 6 }}></th>
+                </tr>
+              </thead>
+              <tbody>
+                {staffRoster
+                  .filter((m) => m.active || can.manageStaff)
+                  .map((m) => {
+                    const t = timeMap.get(`${date}_${m.id}`);
+                    const open = openTime.find((o) => o.staffId === m.id);
+                    return (
+                      <tr
+                        key={m.id}
+                        style={{ borderTop: `1px solid ${COLORS.border}`, opacity: m.active ? 1 : 0.5 }}
+                      >
+                        <td style={{ padding: 6 }}>
+                          {m.name}
+                          {open && open.date !== date && (
+                            <span style={{ marginLeft: 6, fontSize: 12, color: COLORS.warning }}>
+                              still clocked in from {open.date}
+                            </span>
+                          )}
+                        </td>
+                        <td style={{ padding: 6 }}>
+                          {segmentsOf(t)
+                            .map((seg) => `${seg.in}–${seg.out || "…"}`)
+                            .join(", ") || "—"}
+                          {t?.source === "manual" && (
+                            <span title={t.editReason} style={{ marginLeft: 6, fontSize: 12, color: COLORS.muted }}>
+                              (edited)
+                            </span>
+                          )}
+                        </td>
+                        <td style={{ padding: 6 }}>{t ? round2(minutesPresent(t) / 60) : ""}</td>
+                        <td style={{ padding: 6, textAlign: "right", whiteSpace: "nowrap" }}>
+                          {m.active && date === today(settings.timeZone) && can.checkInOut && (
+                            open ? (
+                              <button style={buttonStyle("danger")} onClick={() => clockOut(m)}>
+                                Clock out
+                              </button>
+                            ) : (
+                              <button style={buttonStyle("success")} onClick={() => clockIn(m)}>
+                                Clock in
+                              </button>
+                            )
+                          )}
+                          {(date < today(settings.timeZone) ? can.editPast : can.editToday) && (
+                            <button
+                              style={{ ...buttonStyle("neutral"), marginLeft: 6 }}
+                              onClick={() => editStaffTimes(m)}
+                            >
+                              Edit
+                            </button>
+                          )}
+                          {can.manageStaff && (
+                            <button
+                              style={{ ...buttonStyle("neutral"), marginLeft: 6 }}
+                              onClick={() => setStaffActive(m, !m.active)}
+                            >
+                              {m.active ? "Deactivate" : "Reactivate"}
+                            </button>
+                          )}
+                          {timeConflicts
+                            .filter((c) => c.staffId === m.id && (c.date === date || c.date === open?.date))
+                            .map((c) => (
+                              <div
+                                key={c.id}
+                                style={{
+                                  marginTop: 6,
+                                  fontSize: 12,
+                                  color: "#92400e",
+                                  background: "#fef3c7",
+                                  border: `1px solid ${COLORS.warning}`,
+                                  padding: "4px 8px",
+                                  borderRadius: 8,
+                                  whiteSpace: "normal",
+                                  textAlign: "left",
+                                }}
+                              >
+                                ⚠ {c.date}: a change by {c.byEmail} conflicted and was not applied (
+                                {c.after.map((seg) => `${seg.in}–${seg.out || "…"}`).join(", ") || "no shifts"})
+                                <button
+                                  style={{ ...buttonStyle("neutral"), marginLeft: 6, padding: "2px 6px" }}
+                                  onClick={() => applyTimeConflictCopy(m, c)}
+                                >
+                                  Apply it
+                                </button>
+                                <button
+                                  style={{ ...buttonStyle("neutral"), marginLeft: 6, padding: "2px 6px" }}
+                                  onClick={() => discardTimeConflictCopy(c)}
+                                >
+                                  Discard
+                                </button>
+                              </div>
+                            ))}
+                        </td>
+                      </tr>
+                    );
+                  })}
+              </tbody>
+            </table>
+          )}
+
+          {can.manageStaff && (
+            <div style={{ display: "flex", gap: 8, alignItems: "center", marginTop: 12, flexWrap: "wrap" }}>
+              <input
+                placeholder="Staff name"
+                value={newStaffName}
+                onChange={(e) => setNewStaffName(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && addStaffMember()}
+                style={{
+                  padding: 8,
+                  width: 200,
+                  borderRadius: 10,
+                  border: `1px solid ${COLORS.border}`,
+                  background: "#fff",
+                }}
+              />
+              <button style={buttonStyle("primary")} onClick={addStaffMember}>
+                + Staff
+              </button>
+              {can.editSettings && (
+                <label style={{ display: "flex", gap: 6, alignItems: "center", color: COLORS.header, fontSize: 13 }}>
+                  Overtime after
+                  <input
+                    type="number"
+                    min={1}
+                    defaultValue={settings.overtimeHoursPerWeek}
+                    key={`ot-${settings.overtimeHoursPerWeek}`}
+                    onBlur={(e) => {
+                      const v = Number(e.target.value);
+                      if (v !== settings.overtimeHoursPerWeek) saveOvertimeHours(v);
+                    }}
+                    style={{ padding: 6, width: 60, borderRadius: 8, border: `1px solid ${COLORS.border}` }}
+                  />
+                  hours/week
+                </label>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* END-OF-DAY RECONCILIATION */}
+      <div style={{ marginBottom: 16, ...cardStyle() }}>
+        <div style={{ display: "flex", alignItems: "center", gap: 10, flexWrap: "wrap" }}>
+          <h3 style={{ margin: 0, color: COLORS.header }}>End of Day</h3>
+          <label style={{ display: "flex", gap: 6, alignItems: "center", color: COLORS.header, fontSize: 13 }}>
+            Closing time:
+            <input
+              type="time"
+              defaultValue={settings.closingTime}
+              key={settings.closingTime}
+              disabled={!can.editSettings}
+              onBlur={(e) => {
+                if (e.target.value !== settings.closingTime) saveClosingTime(e.target.value);
+              }}
+              style={{
+                padding: 8,
+                borderRadius: 10,
+                border: `1px solid ${COLORS.border}`,
+                background: "#fff",
+              }}
+            />
+          </label>
+          <label style={{ display: "flex", gap: 6, alignItems: "center", color: COLORS.header, fontSize: 13 }}>
+            Time zone:
+            <select
+              value={settings.timeZone}
+              disabled={!can.editSettings}
+              onChange={(e) => saveTimeZone(e.target.value)}
+              style={{
+                padding: 8,
+                borderRadius: 10,
+                border: `1px solid ${COLORS.border}`,
+                background: "#fff",
+              }}
+            >
+              {TIME_ZONES.includes(settings.timeZone) ? null : (
+                <option value={settings.timeZone}>{settings.timeZone}</option>
+              )}
+              {TIME_ZONES.map((tz) => (
+                <option key={tz} value={tz}>
+                  {tz}
+                </option>
+              ))}
+            </select>
+          </label>
+          {dayClosingTime !== settings.closingTime && (
+            <span style={{ fontSize: 13, color: COLORS.warning, fontWeight: 700 }}>
+              Early dismissal at {dayClosingTime}
+            </span>
+          )}
+          {stillCheckedIn.length > 0 && canEditOn(date) && (
+            <button
+              style={buttonStyle("danger")}
+              onClick={() => checkOutAllAt(stillCheckedIn, dayClosingTime)}
+            >
+              Check out all {stillCheckedIn.length} at {dayClosingTime}
+            </button>
+          )}
+        </div>
+
+        {stillCheckedIn.length === 0 ? (
+          <div style={{ marginTop: 8, fontSize: 13, color: COLORS.muted }}>
+            Everyone is checked out for {date}.
+          </div>
+        ) : (
+          stillCheckedIn.map((k) => (
+            <div
+              key={k.id}
+              style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap", marginTop: 8, fontSize: 13 }}
+            >
+              <span style={{ color: COLORS.header, fontWeight: 600, minWidth: 160 }}>{k.name}</span>
+              <span style={{ color: COLORS.muted }}>
+                in since {openSegment(recMap.get(`${date}_${k.id}`))?.in}
+              </span>
+              <input
+                type="time"
+                value={closeAtTime[k.id] ?? dayClosingTime}
+                onChange={(e) => setCloseAtTime({ ...closeAtTime, [k.id]: e.target.value })}
+                style={{
+                  padding: 6,
+                  borderRadius: 8,
+                  border: `1px solid ${COLORS.border}`,
+                  background: "#fff",
+                }}
+              />
+              {canEditOn(date) && (
+                <button
+                  style={buttonStyle("neutral")}
+                  onClick={() => checkOutAllAt([k], closeAtTime[k.id] ?? dayClosingTime)}
+                >
+                  Check out
+                </button>
+              )}
+            </div>
+          ))
+        )}
+
+        {incompleteElsewhere.length > 0 && (
+          <div style={{ marginTop: 12, fontSize: 13 }}>
+            <b style={{ color: COLORS.danger }}>
+              {incompleteElsewhere.length} incomplete record(s) on other dates
+            </b>{" "}
+            <span style={{ color: COLORS.muted }}>(left out of reimbursement totals until resolved)</span>
+            {incompleteElsewhere.map((r) => (
+              <div key={r.id} style={{ display: "flex", gap: 8, alignItems: "center", marginTop: 4 }}>
+                <span style={{ minWidth: 100 }}>{r.date}</span>
+                <span style={{ color: COLORS.header, minWidth: 160 }}>{r.kidName}</span>
+                <button
+                  style={{ ...buttonStyle("neutral"), padding: "4px 8px" }}
+                  onClick={() => {
+                    setDate(r.date);
+                    setEditingKidId(null);
+                    setHistoryKidId(null);
+                  }}
+                >
+                  Go to date
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {can.editPast && shiftedRecords.length > 0 && (
+          <div style={{ marginTop: 12, fontSize: 13 }}>
+            <b style={{ color: COLORS.warning }}>
+              {shiftedRecords.length} record(s) may be on the wrong date
+            </b>{" "}
+            <span style={{ color: COLORS.muted }}>
+              (checked in/out in {settings.timeZone} on a different day than the record's date)
+            </span>
+            {shiftedRecords.length > 1 && (
+              <button
+                style={{ ...buttonStyle("warning"), padding: "4px 8px", marginLeft: 8 }}
+                onClick={moveAllShifted}
+              >
+                Move all
+              </button>
+            )}
+            {shiftedRecords.map(({ record: r, toDate }) => (
+              <div key={r.id} style={{ display: "flex", gap: 8, alignItems: "center", marginTop: 4 }}>
+                <span style={{ minWidth: 100 }}>{r.date}</span>
+                <span style={{ color: COLORS.header, minWidth: 160 }}>{r.kidName}</span>
+                <span style={{ color: COLORS.muted }}>{formatSegments(segmentsOf(r))}</span>
+                <button
+                  style={{ ...buttonStyle("neutral"), padding: "4px 8px" }}
+                  onClick={() => {
+                    if (confirm(`Move ${r.kidName}'s record from ${r.date} to ${toDate}?`)) moveRecordToDate(r, toDate);
+                  }}
+                >
+                  Move to {toDate}
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* ADD KID AREA */}
+      <div style={{ marginTop: 6 }}>
+        <h3 style={{ margin: "10px 0 6px", color: COLORS.header }}>Kids</h3>
+        <div style={{ display: "flex", gap: 8, flexWrap: "wrap", alignItems: "center" }}>
+          <input
+            placeholder="Add kid"
+            value={newKid}
+            onChange={(e) => setNewKid(e.target.value)}
+            style={{
+              padding: 10,
+              borderRadius: 10,
+              border: `1px solid ${COLORS.border}`,
+              background: "#fff",
+              minWidth: 220,
+            }}
+          />
+          <button style={buttonStyle("primary")} onClick={addKid}>
+            Add
+          </button>
+        </div>
+
+        {inactiveKids.length > 0 && (
+          <div style={{ marginTop: 12, ...cardStyle() }}>
+            <b style={{ color: COLORS.header }}>Inactive children</b>
+            {inactiveKids.map((k) => (
+              <div
+                key={k.id}
+                style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap", marginTop: 8 }}
+              >
+                <span style={{ color: COLORS.header, minWidth: 160 }}>{k.name}</span>
+                {can.manageKids && (
+                  <button style={buttonStyle("success")} onClick={() => reactivateKid(k)}>
+                    Reactivate
+                  </button>
+                )}
+                <button style={buttonStyle("neutral")} onClick={() => openProfile(k)}>
+                  Profile
+                </button>
+                {can.manageKids && (
+                  <button
+                    style={buttonStyle("danger")}
+                    title="Export this child's records, then delete them and the child permanently"
+                    onClick={() => hardDeleteKid(k)}
+                  >
+                    Delete permanently
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {families.length > 0 && (
+          <div style={{ marginTop: 12, ...cardStyle() }}>
+            <b style={{ color: COLORS.header }}>Families</b>
+            {families.map((f) => {
+              const members = kids.filter((k) => k.familyId === f.id);
+              return (
+                <div
+                  key={f.id}
+                  style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap", marginTop: 8 }}
+                >
+                  <span style={{ color: COLORS.header, minWidth: 160 }}>{f.name}</span>
+                  <span style={{ fontSize: 12, color: COLORS.muted }}>
+                    {members.map((k) => k.name).join(", ") || "no children"}
+                  </span>
+                  {can.editProfiles && (
+                    <button style={buttonStyle("neutral")} onClick={() => renameFamily(f)}>
+                      Rename
+                    </button>
+                  )}
+                  {can.manageKids && (
+                    <button style={buttonStyle("danger")} onClick={() => deleteFamily(f)}>
+                      Delete
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {/* RATES UNDER "ADD KID" */}
+      <div style={{ marginTop: 16, ...cardStyle() }}>
+        <div style={{ display: "flex", alignItems: "center", gap: 10 }}>
+          <h3 style={{ margin: 0, color: COLORS.header }}>Reimbursement Rates</h3>
+          {ratesStatus ? (
             <span
               style={{
                 fontSize: 12,
@@ -649,214 +5963,409 @@ export default function App() {
                 border: `1px solid ${COLORS.border}`,
               }}
             >
-              {saveStatus}
+              {ratesStatus}
             </span>
           ) : null}
-          <button style={buttonStyle("neutral")} onClick={() => signOut(auth)}>
-            Sign out
-          </button>
         </div>
-      </div>
 
-      <div style={{ marginTop: 10 }}>
-        <input
-          type="date"
-          value={date}
-          onChange={(e) => {
-            setDate(e.target.value);
-            setEditingKidId(null);
-            setSaveStatus("");
-          }}
-          style={{
-            padding: 8,
-            borderRadius: 10,
-            border: `1px solid ${COLORS.border}`,
-            background: "#fff",
-          }}
-        />
+        <div style={{ overflowX: "auto", marginTop: 10 }}>
+          <table style={{ borderCollapse: "collapse", width: "100%" }}>
+            <thead>
+              <tr>
+                {["Start", "End", "Breakfast ($)", "Snack ($)", "Lunch ($)", ""].map((h) => (
+                  <th
+                    key={h}
+                    style={{
+                      textAlign: "left",
+                      borderBottom: `1px solid ${COLORS.border}`,
+                      padding: "8px 10px",
+                      fontSize: 13,
+                      color: COLORS.muted,
+                    }}
+                  >
+                    {h}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rateDrafts ? (
+                rateDrafts.map((d, idx) => (
+                  <tr key={idx}>
+                    {(["startDate", "endDate"] as const).map((f) => (
+                      <td key={f} style={{ padding: "6px 10px" }}>
+                        <input
+                          type="date"
+                          value={d[f]}
+                          onChange={(e) => setRateDraft(idx, f, e.target.value)}
+                          style={{
+                          padding: 8,
+                          width: 150,
+                          borderRadius: 10,
+                          border: `1px solid ${COLORS.border}`,
+                          background: "#fff",
+                        }}
+                        />
+                      </td>
+                    ))}
+                    {(["breakfast", "snack", "lunch"] as const).map((f) => (
+                      <td key={f} style={{ padding: "6px 10px" }}>
+                        <input
+                          type="number"
+                          step="0.01"
+                          value={d[f]}
+                          onChange={(e) => setRateDraft(idx, f, e.target.value)}
+                          style={{
+                          padding: 8,
+                          width: 100,
+                          borderRadius: 10,
+                          border: `1px solid ${COLORS.border}`,
+                          background: "#fff",
+                        }}
+                        />
+                      </td>
+                    ))}
+                    <td style={{ padding: "6px 10px" }}>
+                      <button
+                        style={buttonStyle("neutral")}
+                        onClick={() => setRateDrafts(rateDrafts.filter((_, j) => j !== idx))}
+                      >
+                        Remove
+                      </button>
+                    </td>
+                  </tr>
+                ))
+              ) : ratePeriods.length === 0 ? (
+                <tr>
+                  <td style={{ padding: "10px", color: COLORS.muted }} colSpan={6}>
+                    No rate periods yet.
+                  </td>
+                </tr>
+              ) : (
+                ratePeriods.map((p) => (
+                  <tr key={p.startDate}>
+                    <td style={{ padding: "8px 10px", color: COLORS.header, fontWeight: 700 }}>{p.startDate}</td>
+                    <td style={{ padding: "8px 10px" }}>{p.endDate || "open"}</td>
+                    <td style={{ padding: "8px 10px" }}>{(p.breakfast || 0).toFixed(2)}</td>
+                    <td style={{ padding: "8px 10px" }}>{(p.snack || 0).toFixed(2)}</td>
+                    <td style={{ padding: "8px 10px" }}>{(p.lunch || 0).toFixed(2)}</td>
+                    <td />
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        <div style={{ marginTop: 10, display: "flex", gap: 8, flexWrap: "wrap" }}>
+          {rateDrafts ? (
+            <>
+              <button style={buttonStyle("neutral")} onClick={addRatePeriod}>
+                + Add period
+              </button>
+              <button style={buttonStyle("primary")} onClick={saveRatePeriods}>
+                Save Rates
+              </button>
+              <button style={buttonStyle("neutral")} onClick={() => setRateDrafts(null)}>
+                Cancel
+              </button>
+            </>
+          ) : can.editSettings ? (
+            <button style={buttonStyle("primary")} onClick={startEditingRates}>
+              Edit Rates
+            </button>
+          ) : null}
+        </div>
+
+        <div style={{ marginTop: 8, fontSize: 12, color: COLORS.muted }}>
+          Tip: Each record uses the rate period in force on its date. Periods must follow each other with no gaps or overlaps; leave the last end date blank to keep it open.
+        </div>
       </div>
 
-      {/* CLOCK-IN/CLOCK-OUT FIRST */}
-      <div style={{ marginTop: 14 }}>
-        {todaysKids.map((k) => {
-          const r = recMap.get(`${date}_${k.id}`);
-          const isEditing = editingKidId === k.id;
+      {/* MEAL SCHEDULE */}
+      <div style={{ marginTop: 16, ...cardStyle() }}>
+        <div style={{ display: "flex", alignItems: "center", gap: 10 }}>
+          <h3 style={{ margin: 0, color: COLORS.header }}>Meal Schedule</h3>
+          {schedStatus ? (
+            <span
+              style={{
+                fontSize: 12,
+                padding: "4px 8px",
+                borderRadius: 8,
+                background: COLORS.infoBg,
+                color: COLORS.infoText,
+                border: `1px solid ${COLORS.border}`,
+              }}
+            >
+              {schedStatus}
+            </span>
+          ) : null}
+        </div>
 
-          return (
-            <div key={k.id} style={cardStyle({ marginBottom: 12 })}>
-              <div
+        <div style={{ marginTop: 10, display: "flex", gap: 12, flexWrap: "wrap" }}>
+          <label style={{ display: "flex", gap: 6, alignItems: "center", color: COLORS.header }}>
+            Effective from:
+            <input
+              type="date"
+              value={schedFrom}
+              onChange={(e) => loadScheduleDraft(e.target.value)}
+              style={{
+                padding: 10,
+                borderRadius: 10,
+                border: `1px solid ${COLORS.border}`,
+                background: "#fff",
+              }}
+            />
+          </label>
+
+          <label style={{ display: "flex", gap: 6, alignItems: "center", color: COLORS.header }}>
+            Applies to:
+            <select
+              value={schedDay}
+              onChange={(e) => setSchedDay(e.target.value)}
+              style={{
+                padding: 10,
+                borderRadius: 10,
+                border: `1px solid ${COLORS.border}`,
+                background: "#fff",
+              }}
+            >
+              <option value="">All days</option>
+              {WEEKDAY_LABELS.map((d, i) => (
+                <option key={d} value={String(i)}>
+                  {d}
+                  {schedWeekdays[String(i)] ? " (variant)" : ""}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          {schedDay && schedWeekdays[schedDay] ? (
+            <button style={buttonStyle("neutral")} onClick={removeWeekdayVariant}>
+              Remove {WEEKDAY_LABELS[Number(schedDay)]} variant
+            </button>
+          ) : null}
+        </div>
+
+        <div style={{ marginTop: 10, display: "flex", gap: 12, flexWrap: "wrap" }}>
+          {MEAL_KEYS.map((m) => (
+            <div
+              key={m}
+              style={{ display: "flex", gap: 6, alignItems: "center", color: COLORS.header }}
+            >
+              <b style={{ minWidth: 80 }}>{MEAL_LABELS[m]}:</b>
+              <input
+                type="time"
+                value={schedShown[m].start}
+                onChange={(e) => setSchedTime(m, "start", e.target.value)}
                 style={{
-                  display: "flex",
-                  gap: 8,
-                  alignItems: "center",
-                  flexWrap: "wrap",
+                  padding: 8,
+                  borderRadius: 10,
+                  border: `1px solid ${COLORS.border}`,
+                  background: "#fff",
                 }}
-              >
-                <b style={{ fontSize: 16, color: COLORS.header }}>{k.name}</b>
+              />
+              –
+              <input
+                type="time"
+                value={schedShown[m].end}
+                onChange={(e) => setSchedTime(m, "end", e.target.value)}
+                style={{
+                  padding: 8,
+                  borderRadius: 10,
+                  border: `1px solid ${COLORS.border}`,
+                  background: "#fff",
+                }}
+              />
+            </div>
+          ))}
+        </div>
 
-                <button style={buttonStyle("success")} onClick={() => checkIn(k)}>
-                  Check In
-                </button>
-                <button style={buttonStyle("danger")} onClick={() => checkOut(k)}>
-                  Check Out
-                </button>
+        {can.editSettings && (
+          <div style={{ marginTop: 10, display: "flex", gap: 8, flexWrap: "wrap" }}>
+            <button style={buttonStyle("primary")} onClick={saveMealSchedule}>
+              Save Schedule
+            </button>
+            <button style={buttonStyle("neutral")} onClick={recalcAllMeals}>
+              Recalculate Meals
+            </button>
+          </div>
+        )}
 
+        {mealSchedules.length > 0 && (
+          <div style={{ marginTop: 10, fontSize: 13, color: COLORS.muted }}>
+            {mealSchedules.map((sc) => (
+              <div key={sc.effectiveFrom} style={{ display: "flex", gap: 8, alignItems: "center", marginTop: 4 }}>
                 <button
-                  style={buttonStyle("warning")}
-                  onClick={() => {
-                    setEditingKidId(k.id);
-                    setEditIn(r?.inTime ?? "");
-                    setEditOut(r?.outTime ?? "");
-                    setEditReason("");
-                    setSaveStatus("");
-                  }}
+                  style={{ ...buttonStyle("neutral"), padding: "4px 8px" }}
+                  onClick={() => loadScheduleDraft(sc.effectiveFrom)}
                 >
-                  Edit Times
+                  {sc.effectiveFrom}
                 </button>
-
-                {(r?.inTime || r?.outTime) && (
-                  <button style={buttonStyle("neutral")} onClick={() => clearTimes(k)}>
-                    Clear
+                <span>
+                  {MEAL_KEYS.map((m) =>
+                    sc.meals[m].start === sc.meals[m].end
+                      ? `${MEAL_LABELS[m]} ${sc.meals[m].start}`
+                      : `${MEAL_LABELS[m]} ${sc.meals[m].start}–${sc.meals[m].end}`
+                  ).join(" · ")}
+                  {Object.keys(sc.weekdays ?? {}).length > 0
+                    ? ` (variants: ${Object.keys(sc.weekdays ?? {})
+                        .map((d) => WEEKDAY_LABELS[Number(d)].slice(0, 3))
+                        .join(", ")})`
+                    : ""}
+                </span>
+                {can.editSettings && (
+                  <button
+                    style={{ ...buttonStyle("neutral"), padding: "4px 8px", color: COLORS.danger }}
+                    onClick={() => deleteMealSchedule(sc.effectiveFrom)}
+                  >
+                    Delete
                   </button>
                 )}
-
-                <button
-                  onClick={() => deactivateKid(k)}
-                  title="Hide from list but keep history"
-                  style={{
-                    padding: "8px 10px",
-                    borderRadius: 8,
-                    cursor: "pointer",
-                    fontWeight: 700,
-                    fontSize: 13,
-                    background: "#fee2e2",
-                    color: COLORS.danger,
-                    border: `1px solid ${COLORS.danger}`,
-                  }}
-                >
-                  Deactivate
-                </button>
               </div>
+            ))}
+          </div>
+        )}
 
-              <div style={{ marginTop: 8, color: COLORS.muted, fontSize: 13 }}>
-                <span style={{ color: COLORS.header, fontWeight: 600 }}>In:</span>{" "}
-                {r?.inTime || "-"}{" "}
-                <span style={{ color: COLORS.header, fontWeight: 600 }}>Out:</span>{" "}
-                {r?.outTime || "-"}{" "}
-                <span style={{ marginLeft: 10 }}>
-                  <span style={{ color: COLORS.header, fontWeight: 600 }}>Meals:</span>{" "}
-                  B:{r?.breakfast || 0} AM:{r?.amSnack || 0} L:{r?.lunch || 0} PM:{r?.pmSnack || 0}
-                </span>
-                {r?.source ? (
-                  <span style={{ marginLeft: 10, opacity: 0.8 }}>
-                    (source: {r.source})
-                  </span>
-                ) : null}
-              </div>
+        <div style={{ marginTop: 8, fontSize: 12, color: COLORS.muted }}>
+          Tip: Each record uses the schedule in force on its date. Dates before the first version use the built-in default (breakfast 09:00–09:30, AM snack 11:00, lunch 13:00, PM snack 15:00). Set the same start and end for a meal served at one time.
+        </div>
+      </div>
 
-              {isEditing && (
-                <div
-                  style={{
-                    marginTop: 12,
-                    display: "flex",
-                    gap: 10,
-                    flexWrap: "wrap",
-                    alignItems: "center",
-                    background: "#f8fafc",
-                    border: `1px dashed ${COLORS.border}`,
-                    padding: 10,
-                    borderRadius: 12,
-                  }}
-                >
-                  <label style={{ display: "flex", gap: 6, alignItems: "center", color: COLORS.header }}>
-                    In:
-                    <input
-                      type="time"
-                      value={editIn}
-                      onChange={(e) => setEditIn(e.target.value)}
-                      style={{
-                        padding: 8,
-                        borderRadius: 10,
-                        border: `1px solid ${COLORS.border}`,
-                        background: "#fff",
-                      }}
-                    />
-                  </label>
+      {/* CLOSURE CALENDAR: holidays, closures, early dismissals */}
+      <div style={{ marginTop: 16, ...cardStyle() }}>
+        <h3 style={{ margin: 0, color: COLORS.header }}>Closures & Holidays</h3>
 
-                  <label style={{ display: "flex", gap: 6, alignItems: "center", color: COLORS.header }}>
-                    Out:
-                    <input
-                      type="time"
-                      value={editOut}
-                      onChange={(e) => setEditOut(e.target.value)}
-                      style={{
-                        padding: 8,
-                        borderRadius: 10,
-                        border: `1px solid ${COLORS.border}`,
-                        background: "#fff",
-                      }}
-                    />
-                  </label>
+        <div style={{ marginTop: 10, display: "flex", gap: 10, alignItems: "center", flexWrap: "wrap", fontSize: 13 }}>
+          <span style={{ color: COLORS.header }}>Open on:</span>
+          {[1, 2, 3, 4, 5, 6, 0].map((day) => (
+            <label key={day} style={{ display: "flex", gap: 4, alignItems: "center" }}>
+              <input
+                type="checkbox"
+                checked={settings.openWeekdays.includes(day)}
+                disabled={!can.editSettings}
+                onChange={(e) => saveOpenWeekdays(day, e.target.checked)}
+              />
+              {WEEKDAY_LABELS[day].slice(0, 3)}
+            </label>
+          ))}
+        </div>
 
-                  <input
-                    placeholder="Reason (optional)"
-                    value={editReason}
-                    onChange={(e) => setEditReason(e.target.value)}
-                    style={{
-                      padding: 8,
-                      minWidth: 240,
-                      borderRadius: 10,
-                      border: `1px solid ${COLORS.border}`,
-                      background: "#fff",
-                    }}
-                  />
+        {can.editSettings && (
+          <div style={{ marginTop: 10, display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" }}>
+            <input
+              type="date"
+              value={closureDraft.date}
+              onChange={(e) => setClosureDraft({ ...closureDraft, date: e.target.value })}
+              style={{ padding: 8, borderRadius: 10, border: `1px solid ${COLORS.border}`, background: "#fff" }}
+            />
+            <select
+              value={closureDraft.kind}
+              onChange={(e) => setClosureDraft({ ...closureDraft, kind: e.target.value as ClosureKind })}
+              style={{ padding: 8, borderRadius: 10, border: `1px solid ${COLORS.border}`, background: "#fff" }}
+            >
+              {(Object.keys(CLOSURE_KIND_LABELS) as ClosureKind[]).map((k) => (
+                <option key={k} value={k}>
+                  {CLOSURE_KIND_LABELS[k]}
+                </option>
+              ))}
+            </select>
+            <input
+              placeholder="Name (e.g. Thanksgiving)"
+              value={closureDraft.label}
+              onChange={(e) => setClosureDraft({ ...closureDraft, label: e.target.value })}
+              style={{
+                padding: 8,
+                width: 200,
+                borderRadius: 10,
+                border: `1px solid ${COLORS.border}`,
+                background: "#fff",
+              }}
+            />
+            {closureDraft.kind === "early-dismissal" && (
+              <label style={{ display: "flex", gap: 6, alignItems: "center", color: COLORS.header, fontSize: 13 }}>
+                closing at
+                <input
+                  type="time"
+                  value={closureDraft.closingTime}
+                  onChange={(e) => setClosureDraft({ ...closureDraft, closingTime: e.target.value })}
+                  style={{ padding: 8, borderRadius: 10, border: `1px solid ${COLORS.border}`, background: "#fff" }}
+                />
+              </label>
+            )}
+            <button style={buttonStyle("primary")} onClick={saveClosure}>
+              Add
+            </button>
+          </div>
+        )}
 
-                  <button style={buttonStyle("primary")} onClick={async () => await saveManualTimes(k)}>
-                    Save
-                  </button>
-                  <button
-                    style={buttonStyle("neutral")}
-                    onClick={() => {
-                      setEditingKidId(null);
-                      setSaveStatus("");
-                    }}
+        {closures.filter((c) => c.date >= `${yearFromDate(date)}-01-01`).length > 0 ? (
+          <div style={{ marginTop: 10, fontSize: 13 }}>
+            {closures
+              .filter((c) => c.date >= `${yearFromDate(date)}-01-01`)
+              .map((c) => (
+                <div key={c.date} style={{ display: "flex", gap: 8, alignItems: "center", marginTop: 4 }}>
+                  <span style={{ minWidth: 100, color: COLORS.header, fontWeight: 600 }}>{c.date}</span>
+                  <span
+                    style={{ minWidth: 120, color: isClosedOn(closureMap, c.date) ? COLORS.danger : COLORS.warning }}
                   >
-                    Cancel
-                  </button>
+                    {CLOSURE_KIND_LABELS[c.kind]}
+                    {c.closingTime ? ` ${c.closingTime}` : ""}
+                  </span>
+                  <span>{c.label}</span>
+                  {can.editSettings && (
+                    <button
+                      style={{ ...buttonStyle("neutral"), padding: "4px 8px", color: COLORS.danger }}
+                      onClick={() => deleteClosure(c)}
+                    >
+                      Delete
+                    </button>
+                  )}
                 </div>
-              )}
-            </div>
-          );
-        })}
-      </div>
+              ))}
+          </div>
+        ) : (
+          <div style={{ marginTop: 10, fontSize: 13, color: COLORS.muted }}>
+            No closures on the calendar for {yearFromDate(date)} yet.
+          </div>
+        )}
 
-      {/* ADD KID AREA */}
-      <div style={{ marginTop: 6 }}>
-        <h3 style={{ margin: "10px 0 6px", color: COLORS.header }}>Kids</h3>
-        <div style={{ display: "flex", gap: 8, flexWrap: "wrap", alignItems: "center" }}>
-          <input
-            placeholder="Add kid"
-            value={newKid}
-            onChange={(e) => setNewKid(e.target.value)}
-            style={{
-              padding: 10,
-              borderRadius: 10,
-              border: `1px solid ${COLORS.border}`,
-              background: "#fff",
-              minWidth: 220,
-            }}
-          />
-          <button style={buttonStyle("primary")} onClick={addKid}>
-            Add
-          </button>
+        <div style={{ marginTop: 8, fontSize: 12, color: COLORS.muted }}>
+          Check-ins on closed days and holidays need staff to confirm, and the kiosk refuses them. Early dismissal days
+          use their own closing time at end of day. Days of operation in the summaries and claim report are the open
+          weekdays minus closures and holidays.
         </div>
       </div>
 
-      {/* RATES UNDER "ADD KID" */}
+      {/* REPORTS: records for a date range, read on demand */}
       <div style={{ marginTop: 16, ...cardStyle() }}>
-        <div style={{ display: "flex", alignItems: "center", gap: 10 }}>
-          <h3 style={{ margin: 0, color: COLORS.header }}>Reimbursement Rates</h3>
-          {ratesStatus ? (
+        <div style={{ display: "flex", alignItems: "center", gap: 10, flexWrap: "wrap" }}>
+          <h3 style={{ margin: 0, color: COLORS.header }}>Reports</h3>
+          <label style={{ display: "flex", gap: 6, alignItems: "center", color: COLORS.header, fontSize: 13 }}>
+            From
+            <input
+              type="date"
+              value={reportFrom}
+              onChange={(e) => setReportFrom(e.target.value)}
+              style={{ padding: 8, borderRadius: 10, border: `1px solid ${COLORS.border}`, background: "#fff" }}
+            />
+            to
+            <input
+              type="date"
+              value={reportTo}
+              onChange={(e) => setReportTo(e.target.value)}
+              style={{ padding: 8, borderRadius: 10, border: `1px solid ${COLORS.border}`, background: "#fff" }}
+            />
+          </label>
+          <button style={buttonStyle("primary")} onClick={loadReportRange}>
+            Load records
+          </button>
+          {can.editSettings && (
+            <button style={buttonStyle("neutral")} onClick={rebuildRollups}>
+              Rebuild summaries
+            </button>
+          )}
+          {reportStatus ? (
             <span
               style={{
                 fontSize: 12,
@@ -867,88 +6376,473 @@ export default function App() {
                 border: `1px solid ${COLORS.border}`,
               }}
             >
-              {ratesStatus}
+              {reportStatus}
             </span>
           ) : null}
         </div>
+        <div style={{ marginTop: 8, fontSize: 13, color: COLORS.muted }}>
+          {reportRange
+            ? `${rangeRecords.length} record(s) loaded for ${reportRange.from} to ${reportRange.to}. ` +
+              "Load again to pick up changes made since."
+            : "The claim report, year-end statements, Excel export and wrong-date check use the records loaded here. " +
+              "The daily view and reimbursement summary are always live."}
+        </div>
 
-        <div style={{ marginTop: 10, display: "flex", gap: 12, flexWrap: "wrap" }}>
-          <label style={{ display: "flex", gap: 6, alignItems: "center", color: COLORS.header }}>
-            Year:
-            <input
-              type="number"
-              value={ratesYear}
-              onChange={(e) => setRatesYear(Number(e.target.value))}
+        {dailyPeaks.length > 0 && (
+          <div style={{ marginTop: 12 }}>
+            <b style={{ color: COLORS.header }}>Daily peak attendance</b>
+            <span style={{ marginLeft: 8, fontSize: 12, color: COLORS.muted }}>
+              most children on site at once{settings.licensedCapacity ? `; capacity ${settings.licensedCapacity}` : ""}
+            </span>
+            <div
               style={{
-                padding: 10,
-                width: 120,
-                borderRadius: 10,
-                border: `1px solid ${COLORS.border}`,
-                background: "#fff",
+                display: "flex",
+                alignItems: "flex-end",
+                gap: 2,
+                height: 120,
+                marginTop: 8,
+                overflowX: "auto",
+                borderBottom: `1px solid ${COLORS.border}`,
               }}
-            />
+            >
+              {dailyPeaks.map((p) => {
+                const max = Math.max(settings.licensedCapacity, ...dailyPeaks.map((d) => d.count));
+                const over = settings.licensedCapacity > 0 && p.count > settings.licensedCapacity;
+                return (
+                  <div
+                    key={p.date}
+                    title={`${p.date}: ${p.count} at ${p.at}`}
+                    style={{
+                      flex: "0 0 10px",
+                      height: `${(p.count / max) * 100}%`,
+                      background: over ? COLORS.danger : COLORS.primary,
+                      borderRadius: "3px 3px 0 0",
+                    }}
+                  />
+                );
+              })}
+            </div>
+            <div style={{ display: "flex", justifyContent: "space-between", fontSize: 11, color: COLORS.muted }}>
+              <span>{dailyPeaks[0].date}</span>
+              <span>{dailyPeaks[dailyPeaks.length - 1].date}</span>
+            </div>
+          </div>
+        )}
+
+        {absenceReport.length > 0 && (
+          <div style={{ marginTop: 12 }}>
+            <b style={{ color: COLORS.header }}>Absences by child and month</b>
+            <span style={{ marginLeft: 8, fontSize: 12, color: COLORS.muted }}>
+              scheduled days use the schedule each child had that day
+            </span>
+            <table style={{ width: "100%", borderCollapse: "collapse", marginTop: 6, fontSize: 14 }}>
+              <thead>
+                <tr style={{ textAlign: "left", color: COLORS.header }}>
+                  {["Month", "Child", "Scheduled", "Attended", "Sick", "Vacation", "No-show", "Not marked"].map((h) => (
+                    <th key={h} style={{ padding: 6 }}>
+                      {h}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {absenceReport.map((a) => (
+                  <tr key={`${a.month}_${a.kidId}`} style={{ borderTop: `1px solid ${COLORS.border}` }}>
+                    <td style={{ padding: 6 }}>{a.month}</td>
+                    <td style={{ padding: 6 }}>{a.kidName}</td>
+                    <td style={{ padding: 6 }}>{a.scheduledDays}</td>
+                    <td style={{ padding: 6 }}>{a.attendedDays}</td>
+                    <td style={{ padding: 6 }}>{a.sick || ""}</td>
+                    <td style={{ padding: 6 }}>{a.vacation || ""}</td>
+                    <td style={{ padding: 6 }}>{a.noShow || ""}</td>
+                    <td style={{ padding: 6, color: a.unmarked ? COLORS.warning : undefined }}>{a.unmarked || ""}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {can.viewBilling && staffHours.length > 0 && (
+          <div style={{ marginTop: 12 }}>
+            <b style={{ color: COLORS.header }}>Staff hours by week</b>
+            <span style={{ marginLeft: 8, fontSize: 12, color: COLORS.muted }}>
+              weeks start Monday; overtime after {settings.overtimeHoursPerWeek} hours
+            </span>
+            <table style={{ width: "100%", borderCollapse: "collapse", marginTop: 6, fontSize: 14 }}>
+              <thead>
+                <tr style={{ textAlign: "left", color: COLORS.header }}>
+                  <th style={{ padding: 6 }}>Week of</th>
+                  <th style={{ padding: 6 }}>Staff</th>
+                  <th style={{ padding: 6 }}>Hours</th>
+                  <th style={{ padding: 6 }}>Overtime</th>
+                </tr>
+              </thead>
+              <tbody>
+                {staffHours.map((w) => (
+                  <tr key={`${w.week}_${w.staffId}`} style={{ borderTop: `1px solid ${COLORS.border}` }}>
+                    <td style={{ padding: 6 }}>{w.week}</td>
+                    <td style={{ padding: 6 }}>
+                      {w.staffName}
+                      {w.openDays > 0 && (
+                        <span style={{ marginLeft: 6, fontSize: 12, color: COLORS.warning }}>
+                          {w.openDays} open shift(s) not counted
+                        </span>
+                      )}
+                    </td>
+                    <td style={{ padding: 6 }}>{round2(w.minutes / 60)}</td>
+                    <td
+                      style={{
+                        padding: 6,
+                        color: w.overtimeMinutes ? COLORS.danger : COLORS.muted,
+                        fontWeight: w.overtimeMinutes ? 700 : 400,
+                      }}
+                    >
+                      {w.overtimeMinutes ? round2(w.overtimeMinutes / 60) : "—"}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* MONTHLY CLAIM REPORT */}
+      <div style={{ marginTop: 16, ...cardStyle() }}>
+        <div style={{ display: "flex", alignItems: "center", gap: 10, flexWrap: "wrap" }}>
+          <h3 style={{ margin: 0, color: COLORS.header }}>Monthly Claim Report</h3>
+          <input
+            type="month"
+            value={claimMonth}
+            onChange={(e) => e.target.value && setClaimMonth(e.target.value)}
+            style={{
+              padding: 8,
+              borderRadius: 10,
+              border: `1px solid ${COLORS.border}`,
+              background: "#fff",
+            }}
+          />
+          <label style={{ display: "flex", gap: 6, alignItems: "center", color: COLORS.header, fontSize: 13 }}>
+            <input type="checkbox" checked={claimByFamily} onChange={(e) => setClaimByFamily(e.target.checked)} />
+            Group by family
           </label>
+          <button style={buttonStyle("primary")} onClick={exportClaimExcel}>
+            Export Claim (Excel)
+          </button>
+        </div>
 
-          <label style={{ display: "flex", gap: 6, alignItems: "center", color: COLORS.header }}>
-            Breakfast ($):
+        {!claimCovered && (
+          <div style={{ marginTop: 8, fontSize: 13, color: COLORS.danger }}>
+            Load records covering {claimMonth} under Reports to see this month.
+          </div>
+        )}
+
+        <div style={{ marginTop: 8, fontSize: 13, color: COLORS.muted }}>
+          Days of operation: <b style={{ color: COLORS.header }}>{claimReport.daysOfOperation}</b>{" "}
+          {claimReport.closed.length > 0 && (
+            <span>(closed {claimReport.closed.map((c) => `${c.date.slice(5)} ${c.label}`).join(", ")})</span>
+          )}
+          <span style={{ marginLeft: 10 }}>
+            Highest daily attendance:{" "}
+            <b style={{ color: COLORS.header }}>{claimReport.highestDailyAttendance}</b>
+          </span>
+          {claimReport.incomplete > 0 && (
+            <span style={{ marginLeft: 10, color: COLORS.danger }}>
+              {claimReport.incomplete} incomplete record(s) excluded
+            </span>
+          )}
+        </div>
+
+        <div style={{ overflowX: "auto", marginTop: 6 }}>
+          <table style={{ borderCollapse: "collapse", width: "100%" }}>
+            <thead>
+              <tr>
+                {[
+                  claimByFamily ? "Family / Child" : "Child",
+                  "Days",
+                  "Breakfast",
+                  "AM Snack",
+                  "Lunch",
+                  "PM Snack",
+                ].map((h) => (
+                  <th
+                    key={h}
+                    style={{
+                      textAlign: "left",
+                      borderBottom: `1px solid ${COLORS.border}`,
+                      padding: "8px 10px",
+                      fontSize: 13,
+                      color: COLORS.muted,
+                    }}
+                  >
+                    {h}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {claimReport.rows.length === 0 ? (
+                <tr>
+                  <td style={{ padding: "10px", color: COLORS.muted }} colSpan={6}>
+                    No attendance this month.
+                  </td>
+                </tr>
+              ) : (
+                <>
+                  {claimReport.rows.map((r) => (
+                    <tr key={r.key}>
+                      <td style={{ padding: "8px 10px", color: COLORS.header, fontWeight: 700 }}>{r.child}</td>
+                      <td style={{ padding: "8px 10px" }}>{r.daysAttended}</td>
+                      <td style={{ padding: "8px 10px" }}>{r.breakfast}</td>
+                      <td style={{ padding: "8px 10px" }}>{r.amSnack}</td>
+                      <td style={{ padding: "8px 10px" }}>{r.lunch}</td>
+                      <td style={{ padding: "8px 10px" }}>{r.pmSnack}</td>
+                    </tr>
+                  ))}
+                  <tr style={{ borderTop: `1px solid ${COLORS.border}` }}>
+                    <td style={{ padding: "8px 10px", fontWeight: 800 }}>Total</td>
+                    <td style={{ padding: "8px 10px", fontWeight: 800 }}>{claimReport.totals.daysAttended}</td>
+                    <td style={{ padding: "8px 10px", fontWeight: 800 }}>{claimReport.totals.breakfast}</td>
+                    <td style={{ padding: "8px 10px", fontWeight: 800 }}>{claimReport.totals.amSnack}</td>
+                    <td style={{ padding: "8px 10px", fontWeight: 800 }}>{claimReport.totals.lunch}</td>
+                    <td style={{ padding: "8px 10px", fontWeight: 800 }}>{claimReport.totals.pmSnack}</td>
+                  </tr>
+                </>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* TUITION BILLING (owner + bookkeeper) */}
+      {can.viewBilling && (
+        <div style={{ marginTop: 16, ...cardStyle() }}>
+          <div style={{ display: "flex", alignItems: "center", gap: 10, flexWrap: "wrap" }}>
+            <h3 style={{ margin: 0, color: COLORS.header }}>Tuition Billing</h3>
             <input
-              type="number"
-              step="0.01"
-              value={rateBreakfast}
-              onChange={(e) => setRateBreakfast(e.target.value)}
+              type="month"
+              value={billingMonth}
+              onChange={(e) => setBillingMonth(e.target.value)}
               style={{
-                padding: 10,
-                width: 140,
+                padding: 8,
                 borderRadius: 10,
                 border: `1px solid ${COLORS.border}`,
                 background: "#fff",
               }}
             />
-          </label>
+            <label style={{ display: "flex", gap: 6, alignItems: "center", color: COLORS.header, fontSize: 13 }}>
+              Late pickup after closing + 
+              <input
+                type="number"
+                min={0}
+                defaultValue={settings.latePickupGraceMin}
+                key={`grace-${settings.latePickupGraceMin}`}
+                disabled={!can.manageBilling}
+                onBlur={(e) => {
+                  const v = Number(e.target.value);
+                  if (v !== settings.latePickupGraceMin) saveLateFees(v, settings.latePickupFeePerMin);
+                }}
+                style={{ padding: 6, width: 60, borderRadius: 8, border: `1px solid ${COLORS.border}` }}
+              />
+              min: $
+              <input
+                type="number"
+                min={0}
+                step="0.01"
+                defaultValue={settings.latePickupFeePerMin}
+                key={`fee-${settings.latePickupFeePerMin}`}
+                disabled={!can.manageBilling}
+                onBlur={(e) => {
+                  const v = Number(e.target.value);
+                  if (v !== settings.latePickupFeePerMin) saveLateFees(settings.latePickupGraceMin, v);
+                }}
+                style={{ padding: 6, width: 70, borderRadius: 8, border: `1px solid ${COLORS.border}` }}
+              />
+              / min
+            </label>
+          </div>
 
-          <label style={{ display: "flex", gap: 6, alignItems: "center", color: COLORS.header }}>
-            Snack ($):
+          {!billingReady && (
+            <div style={{ marginTop: 8, fontSize: 13 }}>
+              <button style={buttonStyle("primary")} onClick={loadBillingHistory}>
+                Load records through {billingMonth}
+              </button>
+              <span style={{ marginLeft: 8, color: COLORS.muted }}>
+                Balances carry forward, so invoices need every record up to this month.
+              </span>
+            </div>
+          )}
+
+          <div style={{ overflowX: "auto", marginTop: 6 }}>
+            <table style={{ borderCollapse: "collapse", width: "100%" }}>
+              <thead>
+                <tr>
+                  {["Family", "Previous", "Charges", "Paid", "Balance", ""].map((h) => (
+                    <th
+                      key={h}
+                      style={{
+                        textAlign: "left",
+                        borderBottom: `1px solid ${COLORS.border}`,
+                        padding: "8px 10px",
+                        fontSize: 13,
+                        color: COLORS.muted,
+                      }}
+                    >
+                      {h}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {monthInvoices.length === 0 ? (
+                  <tr>
+                    <td style={{ padding: "10px", color: COLORS.muted }} colSpan={6}>
+                      Nothing billed this month. Set tuition plans on each child's profile.
+                    </td>
+                  </tr>
+                ) : (
+                  monthInvoices.map((inv) => (
+                    <tr key={inv.familyKey}>
+                      <td style={{ padding: "8px 10px", color: COLORS.header, fontWeight: 700 }}>
+                        {inv.familyName}
+                        {inv.incompleteExcluded > 0 && (
+                          <span style={{ marginLeft: 6, fontSize: 12, color: COLORS.danger, fontWeight: 400 }}>
+                            {inv.incompleteExcluded} open day(s) not billed
+                          </span>
+                        )}
+                        {inv.payments.map((p) => (
+                          <div key={p.id} style={{ fontSize: 12, color: COLORS.muted, fontWeight: 400 }}>
+                            Paid {money(p.amount)} on {p.date}
+                            {p.method ? ` (${p.method})` : ""}
+                            {can.manageBilling && (
+                              <button
+                                style={{ ...buttonStyle("neutral"), padding: "2px 6px", marginLeft: 6, fontSize: 11 }}
+                                onClick={() => deletePayment(p)}
+                              >
+                                Delete
+                              </button>
+                            )}
+                          </div>
+                        ))}
+                      </td>
+                      <td style={{ padding: "8px 10px" }}>{money(inv.previousBalance)}</td>
+                      <td style={{ padding: "8px 10px" }}>{money(inv.charges)}</td>
+                      <td style={{ padding: "8px 10px" }}>{money(inv.paid)}</td>
+                      <td
+                        style={{
+                          padding: "8px 10px",
+                          fontWeight: 700,
+                          color: inv.balance > 0 ? COLORS.danger : COLORS.success,
+                        }}
+                      >
+                        {money(inv.balance)}
+                      </td>
+                      <td style={{ padding: "8px 10px", whiteSpace: "nowrap" }}>
+                        <button style={buttonStyle("neutral")} onClick={() => printInvoice(inv)}>
+                          Invoice
+                        </button>
+                        {can.manageBilling && (
+                          <button
+                            style={{ ...buttonStyle("success"), marginLeft: 6 }}
+                            onClick={() => recordPayment(inv)}
+                          >
+                            Payment
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+          <div style={{ marginTop: 8, fontSize: 12, color: COLORS.muted }}>
+            Invoices are built from attendance records. Use “Invoice” to print or save as PDF; the Excel
+            export includes Invoices and Invoice Lines sheets through this month.
+          </div>
+
+          <div style={{ display: "flex", alignItems: "center", gap: 10, flexWrap: "wrap", marginTop: 20 }}>
+            <h4 style={{ margin: 0, color: COLORS.header }}>Year-End Statements</h4>
             <input
               type="number"
-              step="0.01"
-              value={rateSnack}
-              onChange={(e) => setRateSnack(e.target.value)}
-              style={{
-                padding: 10,
-                width: 140,
-                borderRadius: 10,
-                border: `1px solid ${COLORS.border}`,
-                background: "#fff",
-              }}
+              min={2000}
+              max={2100}
+              value={statementYear}
+              onChange={(e) => setStatementYear(Number(e.target.value))}
+              style={{ padding: 8, width: 90, borderRadius: 10, border: `1px solid ${COLORS.border}` }}
             />
-          </label>
+            <button
+              style={buttonStyle("primary")}
+              disabled={statements.length === 0}
+              onClick={() => printStatements(statements)}
+            >
+              Print all ({statements.length})
+            </button>
+            <button style={buttonStyle("neutral")} disabled={statements.length === 0} onClick={exportStatementsExcel}>
+              Export Excel
+            </button>
+          </div>
 
-          <label style={{ display: "flex", gap: 6, alignItems: "center", color: COLORS.header }}>
-            Lunch ($):
-            <input
-              type="number"
-              step="0.01"
-              value={rateLunch}
-              onChange={(e) => setRateLunch(e.target.value)}
-              style={{
-                padding: 10,
-                width: 140,
-                borderRadius: 10,
-                border: `1px solid ${COLORS.border}`,
-                background: "#fff",
+          <div style={{ display: "flex", gap: 10, flexWrap: "wrap", marginTop: 10 }}>
+            {(
+              [
+                ["providerName", "Provider name"],
+                ["providerTaxId", "Tax ID (EIN/SSN)"],
+              ] as const
+            ).map(([field, label]) => (
+              <input
+                key={`${field}-${settings[field]}`}
+                placeholder={label}
+                defaultValue={settings[field]}
+                disabled={!can.manageBilling}
+                onBlur={(e) => {
+                  if (e.target.value.trim() !== settings[field]) saveProviderInfo(field, e.target.value);
+                }}
+                style={{ padding: 8, borderRadius: 10, border: `1px solid ${COLORS.border}` }}
+              />
+            ))}
+            <textarea
+              key={`providerAddress-${settings.providerAddress}`}
+              placeholder="Provider address"
+              rows={2}
+              defaultValue={settings.providerAddress}
+              disabled={!can.manageBilling}
+              onBlur={(e) => {
+                if (e.target.value.trim() !== settings.providerAddress) saveProviderInfo("providerAddress", e.target.value);
               }}
+              style={{ padding: 8, minWidth: 240, borderRadius: 10, border: `1px solid ${COLORS.border}` }}
             />
-          </label>
-
-          <button style={buttonStyle("primary")} onClick={saveRatesForYear}>
-            Save Rates
-          </button>
-        </div>
+          </div>
 
-        <div style={{ marginTop: 8, fontSize: 12, color: COLORS.muted }}>
-          Tip: Rates apply automatically based on each record’s year. Missing years use the most recent prior year’s rates.
+          {!rangeCovers(`${statementYear}-01-01`, `${statementYear}-12-31`) && (
+            <div style={{ marginTop: 8, fontSize: 13, color: COLORS.danger }}>
+              Load records for all of {statementYear} under Reports to list attendance dates.
+            </div>
+          )}
+          {statements.length === 0 ? (
+            <div style={{ marginTop: 8, fontSize: 13, color: COLORS.muted }}>
+              No payments or attendance in {statementYear}.
+            </div>
+          ) : (
+            statements.map((st) => (
+              <div
+                key={st.familyKey}
+                style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap", marginTop: 8, fontSize: 13 }}
+              >
+                <b style={{ color: COLORS.header }}>{st.familyName}</b>
+                <span>{money(st.totalPaid)} paid</span>
+                <span style={{ color: COLORS.muted }}>
+                  {st.children.map((c) => `${c.name}: ${c.dates.length} days`).join(", ")}
+                </span>
+                <button style={{ ...buttonStyle("neutral"), padding: "4px 8px" }} onClick={() => printStatements([st])}>
+                  Statement
+                </button>
+              </div>
+            ))
+          )}
         </div>
-      </div>
+      )}
 
       {/* SUMMARY */}
       <div style={{ marginTop: 16, ...cardStyle() }}>
@@ -960,7 +6854,7 @@ export default function App() {
             <table style={{ borderCollapse: "collapse", width: "100%" }}>
               <thead>
                 <tr>
-                  {["Year", "Breakfasts", "Snacks", "Lunches", "Total ($)"].map((h) => (
+                  {["Year", "Days Open", "Breakfasts", "Snacks", "Lunches", "Overrides (+/−)", "Total ($)"].map((h) => (
                     <th
                       key={h}
                       style={{
@@ -979,7 +6873,7 @@ export default function App() {
               <tbody>
                 {annualSummary.length === 0 ? (
                   <tr>
-                    <td style={{ padding: "10px", color: COLORS.muted }} colSpan={5}>
+                    <td style={{ padding: "10px", color: COLORS.muted }} colSpan={7}>
                       No data yet.
                     </td>
                   </tr>
@@ -987,9 +6881,18 @@ export default function App() {
                   annualSummary.map((r) => (
                     <tr key={r.year}>
                       <td style={{ padding: "8px 10px", color: COLORS.header, fontWeight: 700 }}>{r.year}</td>
+                      <td style={{ padding: "8px 10px" }}>{r.daysOfOperation}</td>
                       <td style={{ padding: "8px 10px" }}>{r.breakfasts}</td>
                       <td style={{ padding: "8px 10px" }}>{r.snacks}</td>
                       <td style={{ padding: "8px 10px" }}>{r.lunches}</td>
+                      <td style={{ padding: "8px 10px", color: COLORS.muted }}>
+                        +{r.overriddenServed} / −{r.overriddenNotServed}
+                        {r.incompleteExcluded > 0 && (
+                          <span style={{ marginLeft: 8, color: COLORS.danger }}>
+                            ({r.incompleteExcluded} incomplete)
+                          </span>
+                        )}
+                      </td>
                       <td style={{ padding: "8px 10px", fontWeight: 800 }}>
                         {r.total.toFixed(2)}
                       </td>
@@ -1007,7 +6910,16 @@ export default function App() {
             <table style={{ borderCollapse: "collapse", width: "100%" }}>
               <thead>
                 <tr>
-                  {["Month", "Breakfasts", "Snacks", "Lunches", "Total ($)"].map((h) => (
+                  {[
+                    "Month",
+                    "Days Open",
+                    "Breakfasts",
+                    "Snacks",
+                    "Lunches",
+                    "Overrides (+/−)",
+                    "Total ($)",
+                    "Claim",
+                  ].map((h) => (
                     <th
                       key={h}
                       style={{
@@ -1026,22 +6938,62 @@ export default function App() {
               <tbody>
                 {monthlySummary.length === 0 ? (
                   <tr>
-                    <td style={{ padding: "10px", color: COLORS.muted }} colSpan={5}>
+                    <td style={{ padding: "10px", color: COLORS.muted }} colSpan={8}>
                       No data yet.
                     </td>
                   </tr>
                 ) : (
-                  monthlySummary.map((r) => (
-                    <tr key={r.month}>
-                      <td style={{ padding: "8px 10px", color: COLORS.header, fontWeight: 700 }}>{r.month}</td>
-                      <td style={{ padding: "8px 10px" }}>{r.breakfasts}</td>
-                      <td style={{ padding: "8px 10px" }}>{r.snacks}</td>
-                      <td style={{ padding: "8px 10px" }}>{r.lunches}</td>
-                      <td style={{ padding: "8px 10px", fontWeight: 800 }}>
-                        {r.total.toFixed(2)}
-                      </td>
-                    </tr>
-                  ))
+                  monthlySummary.map((r) => {
+                    const lock = monthLocks.find((l) => l.month === r.month);
+                    const sub = lock?.submitted;
+                    const drifted =
+                      sub &&
+                      (sub.total !== r.total ||
+                        sub.breakfasts !== r.breakfasts ||
+                        sub.snacks !== r.snacks ||
+                        sub.lunches !== r.lunches);
+                    return (
+                      <tr key={r.month}>
+                        <td style={{ padding: "8px 10px", color: COLORS.header, fontWeight: 700 }}>{r.month}</td>
+                        <td style={{ padding: "8px 10px" }}>{r.daysOfOperation}</td>
+                        <td style={{ padding: "8px 10px" }}>{r.breakfasts}</td>
+                        <td style={{ padding: "8px 10px" }}>{r.snacks}</td>
+                        <td style={{ padding: "8px 10px" }}>{r.lunches}</td>
+                        <td style={{ padding: "8px 10px", color: COLORS.muted }}>
+                          +{r.overriddenServed} / −{r.overriddenNotServed}
+                          {r.incompleteExcluded > 0 && (
+                            <span style={{ marginLeft: 8, color: COLORS.danger }}>
+                              ({r.incompleteExcluded} incomplete)
+                            </span>
+                          )}
+                        </td>
+                        <td style={{ padding: "8px 10px", fontWeight: 800 }}>
+                          {r.total.toFixed(2)}
+                        </td>
+                        <td style={{ padding: "8px 10px", fontSize: 13, whiteSpace: "nowrap" }}>
+                          {lock?.locked ? (
+                            <span style={{ color: COLORS.infoText, fontWeight: 700 }}>🔒 Locked</span>
+                          ) : (
+                            <span style={{ color: COLORS.muted }}>Open</span>
+                          )}
+                          {can.editPast && (
+                            <button
+                              style={{ ...buttonStyle("neutral"), padding: "2px 6px", marginLeft: 6, fontSize: 11 }}
+                              onClick={() => (lock?.locked ? unlockMonth(lock) : lockMonth(r.month))}
+                            >
+                              {lock?.locked ? "Reopen" : "Close"}
+                            </button>
+                          )}
+                          {sub && (
+                            <div style={{ color: drifted ? COLORS.danger : COLORS.muted, fontSize: 12 }}>
+                              Submitted {sub.breakfasts}/{sub.snacks}/{sub.lunches}, ${sub.total.toFixed(2)}
+                              {drifted ? " (changed since)" : ""}
+                            </div>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })
                 )}
               </tbody>
             </table>
@@ -1049,9 +7001,257 @@ export default function App() {
         </div>
       </div>
 
+      {/* IMPORT */}
+      {can.importData && (
+        <div style={{ marginTop: 16, ...cardStyle() }}>
+          <div style={{ display: "flex", alignItems: "center", gap: 10, flexWrap: "wrap" }}>
+            <h3 style={{ margin: 0, color: COLORS.header }}>Import Attendance</h3>
+            {importStatus ? (
+              <span
+                style={{
+                  fontSize: 12,
+                  padding: "4px 8px",
+                  borderRadius: 8,
+                  background: COLORS.infoBg,
+                  color: COLORS.infoText,
+                  border: `1px solid ${COLORS.border}`,
+                }}
+              >
+                {importStatus}
+              </span>
+            ) : null}
+            <input
+              type="file"
+              accept=".xlsx,.xls,.csv"
+              key={importFileName || "empty"}
+              onChange={(e) => {
+                const f = e.target.files?.[0];
+                if (f) readImportFile(f);
+              }}
+            />
+          </div>
+
+          {importRows && importPlan && (
+            <div style={{ marginTop: 10, fontSize: 13 }}>
+              <div style={{ display: "flex", gap: 12, flexWrap: "wrap", alignItems: "center" }}>
+                {(Object.keys(IMPORT_FIELD_LABELS) as ImportField[]).map((f) => (
+                  <label key={f} style={{ display: "flex", gap: 6, alignItems: "center", color: COLORS.header }}>
+                    {IMPORT_FIELD_LABELS[f]}:
+                    <select
+                      value={importMapping[f]}
+                      onChange={(e) => setImportMapping({ ...importMapping, [f]: e.target.value })}
+                      style={{
+                      padding: 6,
+                      borderRadius: 8,
+                      border: `1px solid ${COLORS.border}`,
+                      background: "#fff",
+                    }}
+                    >
+                      <option value="">(not mapped)</option>
+                      {importHeaders.map((h) => (
+                        <option key={h} value={h}>
+                          {h}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                ))}
+                <label style={{ display: "flex", gap: 6, alignItems: "center", color: COLORS.header }}>
+                  <input
+                    type="checkbox"
+                    checked={importCreateKids}
+                    onChange={(e) => setImportCreateKids(e.target.checked)}
+                  />
+                  Create children that don’t exist yet
+                </label>
+              </div>
+
+              <div style={{ marginTop: 10, color: COLORS.muted }}>
+                Dry run of {importRows.length} row(s) from <b>{importFileName}</b>:{" "}
+                <b style={{ color: COLORS.success }}>
+                  {importPlan.rows.filter((r) => r.action === "insert").length} insert(s)
+                </b>
+                ,{" "}
+                <b style={{ color: COLORS.primary }}>
+                  {importPlan.rows.filter((r) => r.action === "update").length} update(s)
+                </b>
+                ,{" "}
+                <b style={{ color: COLORS.danger }}>{importPlan.errors.length} error(s)</b>
+                {importPlan.newKids.length > 0 && <> — new children: {importPlan.newKids.join(", ")}</>}
+              </div>
+
+              {importPlan.errors.length > 0 && (
+                <ul style={{ margin: "6px 0 0", paddingLeft: 18, color: COLORS.danger, maxHeight: 160, overflowY: "auto" }}>
+                  {importPlan.errors.map((e, idx) => (
+                    <li key={idx}>
+                      Row {e.row}: {e.message}
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              <div style={{ overflowX: "auto", maxHeight: 260, overflowY: "auto", marginTop: 8 }}>
+                <table style={{ borderCollapse: "collapse", width: "100%" }}>
+                  <thead>
+                    <tr>
+                      {["Action", "Date", "Child", "Segments", "Rows"].map((h) => (
+                        <th
+                          key={h}
+                          style={{
+                            textAlign: "left",
+                            borderBottom: `1px solid ${COLORS.border}`,
+                            padding: "6px 10px",
+                            fontSize: 13,
+                            color: COLORS.muted,
+                          }}
+                        >
+                          {h}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {importPlan.rows.map((r) => (
+                      <tr key={r.id}>
+                        <td
+                          style={{
+                            padding: "6px 10px",
+                            fontWeight: 700,
+                            color: r.action === "insert" ? COLORS.success : COLORS.primary,
+                          }}
+                        >
+                          {r.action}
+                        </td>
+                        <td style={{ padding: "6px 10px" }}>{r.date}</td>
+                        <td style={{ padding: "6px 10px" }}>
+                          {r.kidName}
+                          {r.kidId ? "" : " (new)"}
+                        </td>
+                        <td style={{ padding: "6px 10px" }}>{formatSegments(r.segments)}</td>
+                        <td style={{ padding: "6px 10px", color: COLORS.muted }}>{r.sourceRows.join(", ")}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div style={{ marginTop: 10, display: "flex", gap: 8 }}>
+                <button
+                  style={buttonStyle("primary")}
+                  disabled={importPlan.rows.length === 0}
+                  onClick={runImport}
+                >
+                  Import {importPlan.rows.length} record(s)
+                </button>
+                <button style={buttonStyle("neutral")} onClick={cancelImport}>
+                  Cancel
+                </button>
+              </div>
+            </div>
+          )}
+
+          <div style={{ marginTop: 8, fontSize: 12, color: COLORS.muted }}>
+            Tip: One row per check-in. Rows for the same child and date become separate segments. Updates replace that day’s times; meals are recalculated with the schedule in force on each date.
+          </div>
+        </div>
+      )}
+
+      {/* STAFF (owner only) */}
+      {can.manageStaff && (
+        <div style={{ marginTop: 16, ...cardStyle() }}>
+          <h3 style={{ margin: 0, color: COLORS.header }}>Staff</h3>
+
+          <table style={{ width: "100%", borderCollapse: "collapse", marginTop: 10 }}>
+            <thead>
+              <tr style={{ textAlign: "left", color: COLORS.header }}>
+                <th style={{ padding: 6 }}>Name</th>
+                <th style={{ padding: 6 }}>Email</th>
+                <th style={{ padding: 6 }}>Role</th>
+                <th style={{ padding: 6 }}></th>
+              </tr>
+            </thead>
+            <tbody>
+              {members.map((m) => (
+                <tr key={m.uid} style={{ borderTop: `1px solid ${COLORS.border}` }}>
+                  <td style={{ padding: 6 }}>{m.displayName || "—"}</td>
+                  <td style={{ padding: 6 }}>{m.email}</td>
+                  <td style={{ padding: 6 }}>
+                    {m.uid === user.uid ? (
+                      ROLE_LABELS[m.role]
+                    ) : (
+                      <select value={m.role} onChange={(e) => setMemberRole(m, e.target.value as Role)}>
+                        {(Object.keys(ROLE_LABELS) as Role[]).map((r) => (
+                          <option key={r} value={r}>
+                            {ROLE_LABELS[r]}
+                          </option>
+                        ))}
+                      </select>
+                    )}
+                  </td>
+                  <td style={{ padding: 6, textAlign: "right" }}>
+                    {m.uid !== user.uid && (
+                      <button style={buttonStyle("danger")} onClick={() => setMemberRole(m, null)}>
+                        Remove
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {invites.length > 0 && (
+            <div style={{ marginTop: 10 }}>
+              <div style={{ color: COLORS.header, fontWeight: 600 }}>Pending invites</div>
+              {invites.map((inv) => (
+                <div key={inv.email} style={{ display: "flex", gap: 10, alignItems: "center", marginTop: 6 }}>
+                  <span>
+                    {inv.email} · {ROLE_LABELS[inv.role]}
+                  </span>
+                  <button style={buttonStyle("neutral")} onClick={() => revokeInvite(inv.email)}>
+                    Revoke
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div style={{ display: "flex", gap: 8, alignItems: "center", marginTop: 12, flexWrap: "wrap" }}>
+            <input
+              type="email"
+              placeholder="Email address"
+              value={inviteEmail}
+              onChange={(e) => setInviteEmail(e.target.value)}
+              style={{
+                padding: 8,
+                width: 240,
+                borderRadius: 10,
+                border: `1px solid ${COLORS.border}`,
+                background: "#fff",
+              }}
+            />
+            <select value={inviteRole} onChange={(e) => setInviteRole(e.target.value as Role)}>
+              {(Object.keys(ROLE_LABELS) as Role[])
+                .filter((r) => r !== "owner")
+                .map((r) => (
+                  <option key={r} value={r}>
+                    {ROLE_LABELS[r]}
+                  </option>
+                ))}
+            </select>
+            <button style={buttonStyle("primary")} onClick={inviteStaff}>
+              Invite
+            </button>
+          </div>
+          <div style={{ marginTop: 8, fontSize: 12, color: COLORS.muted }}>
+            Invited people join this daycare the first time they sign in with that Google account.
+          </div>
+        </div>
+      )}
+
       <div style={{ marginTop: 16 }}>
         <button style={buttonStyle("primary")} onClick={exportExcel}>
-          Export Excel (Records + Summaries)
+          Export Excel (Loaded Records + Summaries)
         </button>
       </div>
     </div>
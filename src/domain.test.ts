@@ -0,0 +1,565 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_AGE_GROUPS,
+  DEFAULT_MEAL_TIMES,
+  MAX_SEGMENTS,
+  NO_RATES,
+  absenceStats,
+  buildInvoices,
+  calcMeals,
+  closingTimeOn,
+  daysOfOperation,
+  expectedOn,
+  headcount,
+  isClosedOn,
+  notArrived,
+  peakAttendance,
+  rateChangeRange,
+  ratePeriodFor,
+  reimbursementFor,
+  shiftedRecordDate,
+  tuitionLines,
+  tuitionPlanOn,
+  validateAgeGroups,
+  validateClosure,
+  validateRatePeriods,
+  validateSegments,
+  yearEndStatements,
+  zonedDateTime,
+} from "./domain";
+import type {
+  Absence,
+  AbsenceReason,
+  BillingGroup,
+  Closure,
+  ClosureKind,
+  LateFeePolicy,
+  Payment,
+  RatePeriod,
+  RatePeriodDraft,
+  RecordRow,
+  ScheduledKid,
+  Segment,
+} from "./domain";
+
+const record = (segments: Segment[], extra: Partial<RecordRow> = {}): RecordRow => ({
+  id: "2025-03-03_kid1",
+  date: "2025-03-03",
+  kidId: "kid1",
+  kidName: "Ada",
+  segments,
+  breakfast: 0,
+  amSnack: 0,
+  lunch: 0,
+  pmSnack: 0,
+  ...extra,
+});
+
+const meals = (r: RecordRow) => {
+  const m = calcMeals(r, DEFAULT_MEAL_TIMES);
+  return [m.breakfast, m.amSnack, m.lunch, m.pmSnack];
+};
+
+const PERIODS: RatePeriod[] = [
+  { startDate: "2024-07-01", endDate: "2025-06-30", breakfast: 2, snack: 1, lunch: 4 },
+  { startDate: "2025-07-01", endDate: "", breakfast: 3, snack: 1.5, lunch: 5 },
+];
+
+describe("calcMeals", () => {
+  it("counts a check-in exactly at a meal time", () => {
+    expect(meals(record([{ in: "13:00", out: "14:00" }]))).toEqual([0, 0, 1, 0]);
+  });
+
+  it("counts a check-out exactly at a meal time", () => {
+    expect(meals(record([{ in: "07:00", out: "11:00" }]))).toEqual([1, 1, 0, 0]);
+  });
+
+  it("counts both ends of a breakfast window", () => {
+    expect(meals(record([{ in: "09:30", out: "10:00" }]))[0]).toBe(1);
+    expect(meals(record([{ in: "08:00", out: "09:00" }]))[0]).toBe(1);
+  });
+
+  it("misses a meal by one minute either side", () => {
+    expect(meals(record([{ in: "13:01", out: "14:30" }]))).toEqual([0, 0, 0, 0]);
+    expect(meals(record([{ in: "08:00", out: "08:59" }]))[0]).toBe(0);
+  });
+
+  it("treats an open segment (missing check-out) as present to end of day", () => {
+    expect(meals(record([{ in: "12:00", out: "" }]))).toEqual([0, 0, 1, 1]);
+  });
+
+  it("skips meals served while away between segments", () => {
+    expect(
+      meals(
+        record([
+          { in: "08:00", out: "10:00" },
+          { in: "14:00", out: "16:00" },
+        ])
+      )
+    ).toEqual([1, 0, 0, 1]);
+  });
+
+  it("leaves a record with no check-in alone", () => {
+    expect(meals(record([], { lunch: 1 }))).toEqual([0, 0, 1, 0]);
+  });
+
+  it("lets overrides win over times", () => {
+    const r = record([{ in: "12:00", out: "14:00" }], {
+      mealOverrides: {
+        lunch: { status: "not-served", reason: "refused" },
+        breakfast: { status: "served", reason: "served-outside-window" },
+      },
+    });
+    expect(meals(r)).toEqual([1, 0, 0, 0]);
+  });
+});
+
+describe("ratePeriodFor", () => {
+  it("includes a period's start and end dates", () => {
+    expect(ratePeriodFor(PERIODS, "2024-07-01")).toBe(PERIODS[0]);
+    expect(ratePeriodFor(PERIODS, "2025-06-30")).toBe(PERIODS[0]);
+    expect(ratePeriodFor(PERIODS, "2025-07-01")).toBe(PERIODS[1]);
+  });
+
+  it("keeps an open-ended period going", () => {
+    expect(ratePeriodFor(PERIODS, "2031-01-01")).toBe(PERIODS[1]);
+  });
+
+  it("returns zero rates before the first period or with none", () => {
+    expect(ratePeriodFor(PERIODS, "2024-06-30")).toBe(NO_RATES);
+    expect(ratePeriodFor([], "2025-01-01")).toBe(NO_RATES);
+  });
+});
+
+describe("reimbursementFor", () => {
+  const served = (date: string, segments: Segment[] = [{ in: "08:00", out: "16:00" }]) =>
+    record(segments, { date, breakfast: 1, amSnack: 1, lunch: 1, pmSnack: 1 });
+
+  it("prices meals with the period in force on the record's date", () => {
+    expect(reimbursementFor(served("2025-06-30"), PERIODS).amount).toBe(2 + 1 + 1 + 4);
+    expect(reimbursementFor(served("2025-07-01"), PERIODS).amount).toBe(3 + 1.5 + 1.5 + 5);
+  });
+
+  it("earns nothing in a year with no rates but keeps the counts", () => {
+    const r = reimbursementFor(served("2023-03-01"), PERIODS);
+    expect(r.amount).toBe(0);
+    expect(r.rates).toBe(NO_RATES);
+    expect([r.breakfasts, r.snacks, r.lunches]).toEqual([1, 2, 1]);
+  });
+
+  it("holds back incomplete records until checked out", () => {
+    const r = reimbursementFor(served("2025-07-01", [{ in: "08:00", out: "" }]), PERIODS);
+    expect(r.incomplete).toBe(true);
+    expect(r.amount).toBe(0);
+    expect(r.lunches).toBe(1);
+  });
+});
+
+describe("validateRatePeriods", () => {
+  const draft = (startDate: string, endDate: string, lunch = "4"): RatePeriodDraft => ({
+    startDate,
+    endDate,
+    breakfast: "2",
+    snack: "1",
+    lunch,
+  });
+
+  it("accepts contiguous periods in any order", () => {
+    expect(validateRatePeriods([draft("2025-07-01", ""), draft("2024-07-01", "2025-06-30")])).toBeNull();
+  });
+
+  it("rejects a gap", () => {
+    expect(validateRatePeriods([draft("2024-07-01", "2025-06-29"), draft("2025-07-01", "")])).toMatch(/Gap/);
+  });
+
+  it("rejects an overlap", () => {
+    expect(validateRatePeriods([draft("2024-07-01", "2025-07-01"), draft("2025-07-01", "")])).toMatch(/overlap/);
+  });
+
+  it("rejects an open-ended period followed by another", () => {
+    expect(validateRatePeriods([draft("2024-07-01", ""), draft("2025-07-01", "")])).toMatch(/no end date/);
+  });
+
+  it("rejects negative or blank rates and backwards dates", () => {
+    expect(validateRatePeriods([draft("2025-07-01", "", "-1")])).toMatch(/non-negative/);
+    expect(validateRatePeriods([draft("2025-07-01", "", " ")])).toMatch(/non-negative/);
+    expect(validateRatePeriods([draft("2025-07-01", "2025-06-01")])).toMatch(/before start/);
+  });
+});
+
+describe("rateChangeRange", () => {
+  it("is null when nothing changed", () => {
+    expect(rateChangeRange(PERIODS, [...PERIODS].reverse())).toBeNull();
+  });
+
+  it("covers whole years around a changed closed period", () => {
+    const after = [{ ...PERIODS[0], lunch: 4.5 }, PERIODS[1]];
+    expect(rateChangeRange(PERIODS, after)).toEqual({ from: "2024-01-01", to: "2025-12-31" });
+  });
+
+  it("runs to the end when the open-ended period changes", () => {
+    const after = [PERIODS[0], { ...PERIODS[1], breakfast: 3.25 }];
+    expect(rateChangeRange(PERIODS, after)).toEqual({ from: "2025-01-01", to: "9999-12-31" });
+  });
+});
+
+describe("zonedDateTime", () => {
+  it("gives the provider's calendar date and wall-clock time", () => {
+    const at = new Date("2025-03-04T02:30:00Z");
+    expect(zonedDateTime("America/Chicago", at)).toEqual({ date: "2025-03-03", time: "20:30" });
+    expect(zonedDateTime("UTC", at)).toEqual({ date: "2025-03-04", time: "02:30" });
+    expect(zonedDateTime("Asia/Tokyo", at)).toEqual({ date: "2025-03-04", time: "11:30" });
+  });
+
+  it("follows daylight saving time", () => {
+    expect(zonedDateTime("America/Chicago", new Date("2025-07-01T17:05:00Z")).time).toBe("12:05");
+    expect(zonedDateTime("America/Chicago", new Date("2025-01-01T17:05:00Z")).time).toBe("11:05");
+  });
+
+  it("writes midnight as 00, not 24", () => {
+    expect(zonedDateTime("UTC", new Date("2025-03-04T00:00:00Z"))).toEqual({ date: "2025-03-04", time: "00:00" });
+  });
+});
+
+describe("shiftedRecordDate", () => {
+  const TZ = "America/Chicago";
+  // Checked out at 18:30 Chicago time on 2025-03-03, but filed under the UTC date
+  const shifted = record([{ in: "08:00", out: "18:30" }], {
+    id: "2025-03-04_kid1",
+    date: "2025-03-04",
+    source: "auto",
+  });
+  const writtenAt = new Date("2025-03-04T00:30:00Z");
+
+  it("finds a check-out filed under the next UTC day", () => {
+    expect(shiftedRecordDate(shifted, writtenAt, TZ)).toBe("2025-03-03");
+  });
+
+  it("leaves records written on their own date alone", () => {
+    const onTime = record([{ in: "08:00", out: "12:00" }], { source: "auto" });
+    expect(shiftedRecordDate(onTime, new Date("2025-03-03T18:00:00Z"), TZ)).toBeNull();
+  });
+
+  it("needs the last write to match the latest in or out", () => {
+    expect(shiftedRecordDate(shifted, new Date("2025-03-04T01:30:00Z"), TZ)).toBeNull();
+  });
+
+  it("skips manual edits and records written with the provider time zone", () => {
+    expect(shiftedRecordDate({ ...shifted, source: "manual" }, writtenAt, TZ)).toBeNull();
+    expect(shiftedRecordDate({ ...shifted, timeZone: TZ }, writtenAt, TZ)).toBeNull();
+  });
+});
+
+describe("validateSegments", () => {
+  it("allows only the last segment open", () => {
+    expect(validateSegments([{ in: "08:00", out: "" }])).toBeNull();
+    expect(
+      validateSegments([
+        { in: "08:00", out: "" },
+        { in: "10:00", out: "11:00" },
+      ])
+    ).toMatch(/Only the last/);
+  });
+
+  it(`stops at ${MAX_SEGMENTS} segments, like the security rules`, () => {
+    const hour = (i: number) => String(8 + i).padStart(2, "0");
+    const segs = (n: number) => Array.from({ length: n }, (_, i) => ({ in: `${hour(i)}:00`, out: `${hour(i)}:30` }));
+    expect(validateSegments(segs(MAX_SEGMENTS))).toBeNull();
+    expect(validateSegments(segs(MAX_SEGMENTS + 1))).toMatch(/at most/);
+  });
+});
+
+describe("tuition billing", () => {
+  const NO_LATE_FEES: LateFeePolicy = { closingTime: "18:00", graceMin: 5, feePerMin: 0 };
+  const day = (date: string, out = "16:00") => record([{ in: "08:00", out }], { id: `${date}_kid1`, date });
+  const ada = {
+    id: "kid1",
+    name: "Ada",
+    tuition: { kind: "daily" as const, rate: 50, discountPct: 0 },
+    tuitionHistory: [
+      { effectiveFrom: "", plan: { kind: "daily" as const, rate: 40, discountPct: 0 } },
+      { effectiveFrom: "2025-03-05", plan: { kind: "daily" as const, rate: 50, discountPct: 0 } },
+    ],
+  };
+
+  it("finds the plan in force on a date, or the only plan before plans were versioned", () => {
+    expect(tuitionPlanOn(ada, "2025-02-28")?.rate).toBe(40);
+    expect(tuitionPlanOn(ada, "2025-03-05")?.rate).toBe(50);
+    expect(tuitionPlanOn({ ...ada, tuitionHistory: undefined }, "2020-01-01")?.rate).toBe(50);
+  });
+
+  it("prices each day at the plan in force that day", () => {
+    const records = ["2025-03-03", "2025-03-04", "2025-03-05"].map((d) => day(d));
+    const { lines } = tuitionLines(ada, records, "2025-03", NO_LATE_FEES);
+    expect(lines.map((l) => [l.quantity, l.unitPrice, l.amount])).toEqual([
+      [2, 40, 80],
+      [1, 50, 50],
+    ]);
+  });
+
+  it("prices a week at the plan in force on its Monday", () => {
+    const weekly = {
+      id: "kid1",
+      name: "Ada",
+      tuitionHistory: [
+        { effectiveFrom: "", plan: { kind: "weekly" as const, rate: 200, discountPct: 10 } },
+        { effectiveFrom: "2025-03-04", plan: { kind: "weekly" as const, rate: 250, discountPct: 10 } },
+      ],
+    };
+    const records = [day("2025-03-03"), day("2025-03-04"), day("2025-03-10")];
+    const { lines } = tuitionLines(weekly, records, "2025-03", NO_LATE_FEES);
+    expect(lines.map((l) => l.amount)).toEqual([200, -20, 250, -25]);
+  });
+
+  it("charges late pickups against each day's own closing time", () => {
+    const late: LateFeePolicy = {
+      closingTime: "18:00",
+      closingTimes: [
+        { effectiveFrom: "", closingTime: "17:00" },
+        { effectiveFrom: "2025-03-05", closingTime: "18:00" },
+      ],
+      closures: new Map<string, Closure>([
+        ["2025-03-04", { date: "2025-03-04", kind: "early-dismissal", label: "Training", closingTime: "12:00" }],
+      ]),
+      graceMin: 5,
+      feePerMin: 1,
+    };
+    // 10 min past 17:05 before the change, 55 past the early dismissal's 12:05, none past 18:05
+    const records = [day("2025-03-03", "17:15"), day("2025-03-04", "13:00"), day("2025-03-05", "18:00")];
+    const { lines } = tuitionLines({ id: "kid1", name: "Ada" }, records, "2025-03", late);
+    expect(lines).toEqual([
+      {
+        kidId: "kid1",
+        description: "Ada: late pickup, 65 min over 2 day(s)",
+        quantity: 65,
+        unitPrice: 1,
+        amount: 65,
+      },
+    ]);
+  });
+
+  it("keeps an earlier month's invoice at the plan it was billed under", () => {
+    const groups: BillingGroup[] = [{ key: "kid:kid1", name: "Ada", kids: [ada] }];
+    const records = [day("2025-02-03"), day("2025-03-05")];
+    const [feb, mar] = buildInvoices(groups, records, [], NO_LATE_FEES, "2025-03");
+    expect([feb.month, feb.charges]).toEqual(["2025-02", 40]);
+    expect([mar.month, mar.charges, mar.balance]).toEqual(["2025-03", 50, 90]);
+  });
+});
+
+describe("yearEndStatements", () => {
+  const pay = (id: string, familyKey: string, date: string, amount: number): Payment => ({
+    id,
+    familyKey,
+    date,
+    amount,
+    method: "Cash",
+    note: "",
+  });
+  const groups: BillingGroup[] = [
+    {
+      key: "fam1",
+      name: "Lovelace",
+      kids: [
+        { id: "kid1", name: "Ada" },
+        { id: "kid2", name: "Byron" },
+      ],
+    },
+    { key: "kid:kid3", name: "Cy", kids: [{ id: "kid3", name: "Cy" }] },
+  ];
+
+  it("totals the family's payments in the year, in date order", () => {
+    const [s] = yearEndStatements(
+      groups,
+      [],
+      [pay("p2", "fam1", "2025-06-01", 100.1), pay("p1", "fam1", "2025-01-15", 50.2), pay("p0", "fam1", "2024-12-31", 999)],
+      2025
+    );
+    expect(s.familyKey).toBe("fam1");
+    expect(s.payments.map((p) => p.id)).toEqual(["p1", "p2"]);
+    expect(s.totalPaid).toBe(150.3);
+  });
+
+  it("lists each child's attended days once, skipping days without a check-in", () => {
+    const records = [
+      record([{ in: "08:00", out: "12:00" }]),
+      record([{ in: "13:00", out: "15:00" }]),
+      record([], { date: "2025-03-04" }),
+      record([{ in: "08:00", out: "09:00" }], { date: "2024-03-04" }),
+    ];
+    const [s] = yearEndStatements(groups, records, [], 2025);
+    expect(s.children).toEqual([
+      { id: "kid1", name: "Ada", dates: ["2025-03-03"] },
+      { id: "kid2", name: "Byron", dates: [] },
+    ]);
+  });
+
+  it("skips groups with no payments or attendance that year", () => {
+    expect(yearEndStatements(groups, [], [pay("p1", "kid:kid3", "2024-05-01", 20)], 2025)).toEqual([]);
+  });
+});
+
+describe("headcount", () => {
+  const on = "2025-03-03";
+
+  it("places children by age in months, youngest group first", () => {
+    const h = headcount(
+      [{ birthDate: "2024-09-04" }, { birthDate: "2023-09-03" }, { birthDate: "2020-01-01" }],
+      DEFAULT_AGE_GROUPS,
+      on
+    );
+    expect(h.byGroup).toEqual([1, 1, 1, 0]);
+    expect(h.requiredStaff).toBe(1);
+  });
+
+  it("moves a child up on the day they reach the group's age", () => {
+    expect(headcount([{ birthDate: "2023-09-04" }], DEFAULT_AGE_GROUPS, on).byGroup[0]).toBe(1);
+    expect(headcount([{ birthDate: "2023-09-03" }], DEFAULT_AGE_GROUPS, on).byGroup[1]).toBe(1);
+  });
+
+  it("counts children without a birth date as the youngest", () => {
+    const h = headcount([{}, { birthDate: "" }], DEFAULT_AGE_GROUPS, on);
+    expect(h.byGroup[0]).toBe(2);
+    expect(h.unknownAge).toBe(2);
+  });
+
+  it("rounds staff up once for the whole room", () => {
+    const toddlers = Array.from({ length: 6 }, () => ({ birthDate: "2023-01-01" }));
+    expect(headcount(toddlers, DEFAULT_AGE_GROUPS, on).requiredStaff).toBe(1);
+    expect(headcount([...toddlers, { birthDate: "2024-12-01" }], DEFAULT_AGE_GROUPS, on).requiredStaff).toBe(2);
+  });
+});
+
+describe("validateAgeGroups", () => {
+  it("accepts the defaults", () => {
+    expect(validateAgeGroups(DEFAULT_AGE_GROUPS)).toBeNull();
+  });
+
+  it("rejects an empty table, bad ratios, missing ages and the wrong order", () => {
+    const [infants, toddlers, , school] = DEFAULT_AGE_GROUPS;
+    expect(validateAgeGroups([])).toMatch(/at least one/);
+    expect(validateAgeGroups([{ ...infants, childrenPerStaff: 0 }, school])).toMatch(/positive/);
+    expect(validateAgeGroups([{ ...infants, maxMonths: null }, school])).toMatch(/in months/);
+    expect(validateAgeGroups([toddlers, infants, school])).toMatch(/in order/);
+  });
+});
+
+describe("peakAttendance", () => {
+  it("finds the most children on site and when it first happened", () => {
+    const day = [
+      record([{ in: "08:00", out: "12:00" }], { kidId: "kid1" }),
+      record([{ in: "09:00", out: "10:00" }], { kidId: "kid2" }),
+      record([{ in: "10:00", out: "" }], { kidId: "kid3" }),
+    ];
+    expect(peakAttendance(day)).toEqual({ count: 2, at: "09:00" });
+  });
+
+  it("is zero for an empty day", () => {
+    expect(peakAttendance([])).toEqual({ count: 0, at: "" });
+  });
+});
+
+describe("expected schedules and absences", () => {
+  const NO_CLOSURES = new Map<string, Closure>();
+  // Mondays and Wednesdays from March 2025 (2025-03-03 is a Monday)
+  const kid: ScheduledKid = {
+    id: "kid1",
+    name: "Ada",
+    enrollStart: "2025-03-01",
+    schedule: { "1": { in: "08:00", out: "16:00" }, "3": { in: "09:00", out: "15:00" } },
+  };
+  const absence = (date: string, reason: AbsenceReason): Absence => ({
+    id: `${date}_kid1`,
+    date,
+    kidId: "kid1",
+    kidName: "Ada",
+    reason,
+    by: "owner-uid",
+    byEmail: "owner@example.com",
+  });
+
+  it("expects a child only on scheduled weekdays while enrolled", () => {
+    expect(expectedOn(kid, "2025-03-03", NO_CLOSURES)).toEqual({ in: "08:00", out: "16:00" });
+    expect(expectedOn(kid, "2025-03-04", NO_CLOSURES)).toBeUndefined();
+    expect(expectedOn(kid, "2025-02-24", NO_CLOSURES)).toBeUndefined();
+  });
+
+  it("expects nobody on a day the provider is closed", () => {
+    const holiday = new Map([["2025-03-03", { date: "2025-03-03", kind: "holiday" as const, label: "Test", closingTime: "" }]]);
+    expect(expectedOn(kid, "2025-03-03", holiday)).toBeUndefined();
+    expect(notArrived([kid], new Map(), new Map(), holiday, "2025-03-03", "09:00", 15)).toEqual([]);
+  });
+
+  it("lists a child as not arrived once the grace period is up", () => {
+    const none = new Map<string, RecordRow>();
+    const noAbsences = new Map<string, Absence>();
+    expect(notArrived([kid], none, noAbsences, NO_CLOSURES, "2025-03-03", "08:14", 15)).toEqual([]);
+    expect(notArrived([kid], none, noAbsences, NO_CLOSURES, "2025-03-03", "08:15", 15).map((e) => e.kid.id)).toEqual(["kid1"]);
+  });
+
+  it("drops children who checked in or were marked absent", () => {
+    const checkedIn = new Map([["2025-03-03_kid1", record([{ in: "08:40", out: "" }])]]);
+    const absent = new Map([["2025-03-03_kid1", absence("2025-03-03", "sick")]]);
+    expect(notArrived([kid], checkedIn, new Map(), NO_CLOSURES, "2025-03-03", "09:00", 15)).toEqual([]);
+    expect(notArrived([kid], new Map(), absent, NO_CLOSURES, "2025-03-03", "09:00", 15)).toEqual([]);
+  });
+
+  it("counts scheduled, attended, absent and unmarked days up to `through`", () => {
+    const records = [
+      record([{ in: "08:00", out: "16:00" }]),
+      record([{ in: "08:00", out: "12:00" }], { date: "2025-03-04" }),
+    ];
+    const [s] = absenceStats([kid], records, [absence("2025-03-05", "sick")], NO_CLOSURES, "2025-03-01", "2025-03-31", "2025-03-12");
+    expect(s).toMatchObject({ month: "2025-03", scheduledDays: 4, attendedDays: 2, sick: 1, unmarked: 2 });
+  });
+
+  it("checks each day against the week in force that day", () => {
+    // Mondays and Wednesdays until the 10th, Mondays only after
+    const changed: ScheduledKid = {
+      ...kid,
+      schedule: { "1": { in: "08:00", out: "16:00" } },
+      scheduleHistory: [
+        { effectiveFrom: "", schedule: kid.schedule! },
+        { effectiveFrom: "2025-03-10", schedule: { "1": { in: "08:00", out: "16:00" } } },
+      ],
+    };
+    expect(expectedOn(changed, "2025-03-05", NO_CLOSURES)).toEqual({ in: "09:00", out: "15:00" });
+    expect(expectedOn(changed, "2025-03-12", NO_CLOSURES)).toBeUndefined();
+    const [s] = absenceStats([changed], [], [], NO_CLOSURES, "2025-03-01", "2025-03-31", "2025-03-31");
+    expect(s.scheduledDays).toBe(2 + 4); // the 3rd and 5th, then four Mondays
+  });
+});
+
+describe("closures", () => {
+  const closure = (date: string, kind: ClosureKind, closingTime = ""): Closure => ({
+    date,
+    kind,
+    label: "Test",
+    closingTime,
+  });
+  // Early dismissal on Monday the 3rd, holiday on Wednesday the 5th
+  const closures = new Map([
+    ["2025-03-03", closure("2025-03-03", "early-dismissal", "12:00")],
+    ["2025-03-05", closure("2025-03-05", "holiday")],
+  ]);
+
+  it("validates date, name and the early-dismissal time", () => {
+    expect(validateClosure(closure("2025-03-05", "holiday"))).toBeNull();
+    expect(validateClosure(closure("2025-13-01", "holiday"))).toMatch(/valid date/);
+    expect(validateClosure({ ...closure("2025-03-05", "closed"), label: " " })).toMatch(/name/);
+    expect(validateClosure(closure("2025-03-03", "early-dismissal"))).toMatch(/closing time/);
+  });
+
+  it("closes all day except on early dismissal, which moves the closing time", () => {
+    expect(isClosedOn(closures, "2025-03-05")).toBe(true);
+    expect(isClosedOn(closures, "2025-03-03")).toBe(false);
+    expect(isClosedOn(closures, "2025-03-04")).toBe(false);
+    expect(closingTimeOn(closures, "2025-03-03", "18:00")).toBe("12:00");
+    expect(closingTimeOn(closures, "2025-03-04", "18:00")).toBe("18:00");
+  });
+
+  it("counts open weekdays minus full closures", () => {
+    expect(daysOfOperation(new Map(), [1, 2, 3, 4, 5], "2025-03-01", "2025-03-31")).toBe(21);
+    expect(daysOfOperation(closures, [1, 2, 3, 4, 5], "2025-03-01", "2025-03-31")).toBe(20);
+  });
+});
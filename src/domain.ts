@@ -0,0 +1,1139 @@
+// Attendance, meal and reimbursement rules. Pure functions only: no React,
+// no Firestore, so everything here can be reasoned about (and run) on its own.
+
+// One attendance stretch within a day. `out` is "" while the child is still here.
+export type Segment = { in: string; out: string };
+
+// A parent/guardian's on-screen signature from the kiosk
+export type Signature = {
+  kind: "in" | "out";
+  time: string; // "HH:MM", the segment edge it signs for
+  guardian: string; // name as confirmed at the kiosk
+  image: string; // PNG data URL
+  signedAt: number; // ms since epoch
+};
+
+export type RecordRow = {
+  id: string; // `${date}_${kidId}`
+  date: string;
+  kidId: string;
+  kidName: string;
+
+  // We store "" (empty string) when cleared to avoid Firestore undefined/delete issues
+  inTime?: string; // "HH:MM" or "" (first segment's in)
+  outTime?: string; // "HH:MM" or "" (last segment's out)
+
+  // Ordered attendance segments. Records written before segments existed
+  // only have inTime/outTime; segmentsOf() reads both shapes.
+  segments?: Segment[];
+
+  breakfast: number;
+  amSnack: number;
+  lunch: number;
+  pmSnack: number;
+
+  // Manual per-meal choices; a meal not listed here is "auto" (from segments).
+  // These survive later time edits because calcMeals applies them last.
+  mealOverrides?: Partial<Record<MealKey, MealOverride>>;
+
+  // Kiosk sign-ins/outs, in the order they happened
+  signatures?: Signature[];
+
+  // provider time zone the last write took its date and times in; absent on
+  // records last written before there was one
+  timeZone?: string;
+
+  // concurrency: server-incremented write count, and the count this write saw
+  rev?: number;
+  baseRev?: number;
+
+  // audit/metadata
+  source?: "auto" | "manual";
+  editedBy?: string;
+  editReason?: string; // "" allowed
+  updatedAt?: unknown;
+};
+
+// daycares/{daycareId}/settings/config/ratePeriods/{startDate}
+export type RatePeriod = {
+  startDate: string; // YYYY-MM-DD (also the doc id)
+  endDate: string; // YYYY-MM-DD inclusive, "" = open-ended
+  breakfast: number; // dollars
+  snack: number; // dollars (used for amSnack + pmSnack)
+  lunch: number; // dollars
+  updatedAt?: unknown;
+};
+
+// Legacy daycares/{daycareId}/settings/config/reimbursementRates/{year}; only read to migrate
+export type LegacyYearRates = {
+  year: number;
+  breakfast: number;
+  snack: number;
+  lunch: number;
+};
+
+// Editor row; numbers stay strings until saved
+export type RatePeriodDraft = {
+  startDate: string;
+  endDate: string;
+  breakfast: string;
+  snack: string;
+  lunch: string;
+};
+
+export type MealKey = "breakfast" | "amSnack" | "lunch" | "pmSnack";
+
+export type MealOverrideReason =
+  | "refused"
+  | "food-from-home"
+  | "not-creditable"
+  | "left-before-serving"
+  | "served-outside-window"
+  | "other";
+
+export type MealOverride = {
+  status: "served" | "not-served";
+  reason: MealOverrideReason;
+};
+
+export type MealWindow = { start: string; end: string }; // "HH:MM"
+export type MealTimes = Record<MealKey, MealWindow>;
+
+export type MealSchedule = {
+  effectiveFrom: string; // YYYY-MM-DD (also the doc id)
+  meals: MealTimes;
+  // Optional per-weekday variants keyed by getUTCDay() ("0" = Sunday).
+  // Only the meals listed override the base schedule for that weekday.
+  weekdays?: Record<string, Partial<MealTimes>>;
+  updatedAt?: unknown;
+};
+
+// A single-point meal (snacks, lunch) is just a window with start === end.
+export const DEFAULT_MEAL_TIMES: MealTimes = {
+  breakfast: { start: "09:00", end: "09:30" },
+  amSnack: { start: "11:00", end: "11:00" },
+  lunch: { start: "13:00", end: "13:00" },
+  pmSnack: { start: "15:00", end: "15:00" },
+};
+
+export const MEAL_KEYS: MealKey[] = ["breakfast", "amSnack", "lunch", "pmSnack"];
+
+export const toMin = (t?: string) =>
+  t ? Number(t.slice(0, 2)) * 60 + Number(t.slice(3, 5)) : null;
+
+export function isValidHHMM(t: string) {
+  if (!/^\d{2}:\d{2}$/.test(t)) return false;
+  const m = toMin(t);
+  return m !== null && m >= 0 && m < 24 * 60;
+}
+
+export const weekdayOf = (d: string) => new Date(`${d}T00:00:00Z`).getUTCDay();
+
+// Pick the schedule version in force on `date` (latest effectiveFrom <= date),
+// then apply that version's weekday variant if one exists.
+export function mealTimesForDate(schedules: MealSchedule[], date: string): MealTimes {
+  let best: MealSchedule | null = null;
+  for (const s of schedules) {
+    if (s.effectiveFrom <= date && (!best || s.effectiveFrom > best.effectiveFrom)) best = s;
+  }
+  if (!best) return DEFAULT_MEAL_TIMES;
+
+  const variant = best.weekdays?.[String(weekdayOf(date))];
+  return { ...DEFAULT_MEAL_TIMES, ...best.meals, ...(variant ?? {}) };
+}
+
+// Anything kept as in/out segments: children's records and staff time records
+export type Attendance = Pick<RecordRow, "segments" | "inTime" | "outTime">;
+
+export function segmentsOf(r?: Attendance): Segment[] {
+  if (!r) return [];
+  if (r.segments) return r.segments;
+  return r.inTime ? [{ in: r.inTime, out: r.outTime ?? "" }] : [];
+}
+
+// Sort segments and keep the flat inTime/outTime fields in step with them
+export function withSegments<T extends Attendance>(r: T, segments: Segment[]): T {
+  const sorted = [...segments].sort((a, b) => a.in.localeCompare(b.in));
+  return {
+    ...r,
+    segments: sorted,
+    inTime: sorted[0]?.in ?? "",
+    outTime: sorted.length ? sorted[sorted.length - 1].out : "",
+  };
+}
+
+export const openSegment = (r?: Attendance) => segmentsOf(r).find((s) => !s.out);
+
+// Close the open segment at `at` (never earlier than its own check-in)
+export const closeOpenSegments = (segs: Segment[], at: string): Segment[] =>
+  segs.map((s) => (s.out ? s : { in: s.in, out: toMin(at)! < toMin(s.in)! ? s.in : at }));
+
+// Still checked in: meals can't be known yet, so the record stays out of
+// reimbursement totals until someone records the check-out.
+export const isIncomplete = (r: RecordRow) => !!openSegment(r);
+
+// firestore.rules' validSegments() checks a fixed number of segments
+export const MAX_SEGMENTS = 8;
+
+// Same rules saveManualTimes has always applied to a single in/out pair,
+// plus: segments may not overlap and only the last one may be left open.
+export function validateSegments(segments: Segment[]): string | null {
+  if (segments.length === 0) return "Add at least one segment with an In time.";
+  if (segments.length > MAX_SEGMENTS) return `A day can have at most ${MAX_SEGMENTS} segments.`;
+
+  for (const [idx, seg] of segments.entries()) {
+    const n = idx + 1;
+    if (!seg.in || !isValidHHMM(seg.in)) return `Segment ${n}: please enter a valid In time (HH:MM).`;
+    if (seg.out && !isValidHHMM(seg.out)) return `Segment ${n}: Out time must be blank or a valid HH:MM.`;
+    if (seg.out && toMin(seg.out)! < toMin(seg.in)!) return `Segment ${n}: Out time cannot be earlier than In time.`;
+  }
+
+  const sorted = [...segments].sort((a, b) => a.in.localeCompare(b.in));
+  for (let k = 0; k < sorted.length - 1; k++) {
+    if (!sorted[k].out) return "Only the last segment may be left without an Out time.";
+    if (toMin(sorted[k + 1].in)! < toMin(sorted[k].out)!) return "Segments cannot overlap.";
+  }
+  return null;
+}
+
+export function calcMeals(r: RecordRow, meals: MealTimes) {
+  const segs = segmentsOf(r)
+    .map((s) => ({ i: toMin(s.in), o: toMin(s.out) ?? 24 * 60 }))
+    .filter((s): s is { i: number; o: number } => s.i != null);
+
+  // If no valid inTime, do NOT auto-calc (return as-is)
+  if (segs.length === 0) return applyMealOverrides(r);
+
+  // Present at any point during the serving window, in any segment
+  const served = (w: MealWindow) =>
+    segs.some(({ i, o }) => i <= toMin(w.end)! && o >= toMin(w.start)!) ? 1 : 0;
+
+  return applyMealOverrides({
+    ...r,
+    breakfast: served(meals.breakfast),
+    amSnack: served(meals.amSnack),
+    lunch: served(meals.lunch),
+    pmSnack: served(meals.pmSnack),
+  });
+}
+
+// Manual "served" / "not served" choices win over the time-based result
+export function applyMealOverrides(r: RecordRow): RecordRow {
+  const out = { ...r };
+  for (const m of MEAL_KEYS) {
+    const o = r.mealOverrides?.[m];
+    if (o) out[m] = o.status === "served" ? 1 : 0;
+  }
+  return out;
+}
+
+// Meals counted / excluded because of a manual override (for summaries)
+export function overrideCounts(r: RecordRow) {
+  let served = 0;
+  let notServed = 0;
+  for (const m of MEAL_KEYS) {
+    const o = r.mealOverrides?.[m];
+    if (o?.status === "served") served++;
+    if (o?.status === "not-served") notServed++;
+  }
+  return { served, notServed };
+}
+
+export const isValidDate = (d: string) =>
+  /^\d{4}-\d{2}-\d{2}$/.test(d) && !Number.isNaN(Date.parse(`${d}T00:00:00Z`));
+
+export const addDays = (d: string, n: number) => {
+  const t = new Date(`${d}T00:00:00Z`);
+  t.setUTCDate(t.getUTCDate() + n);
+  return t.toISOString().slice(0, 10);
+};
+
+export const NO_RATES: RatePeriod = { startDate: "", endDate: "", breakfast: 0, snack: 0, lunch: 0 };
+
+// Rate period in force on `date`; zero rates when no period covers it
+export function ratePeriodFor(periods: RatePeriod[], date: string): RatePeriod {
+  return (
+    periods.find((p) => p.startDate <= date && (!p.endDate || date <= p.endDate)) ?? NO_RATES
+  );
+}
+
+// Start dates of the periods in force at some point between two dates
+export const periodsBetween = (periods: RatePeriod[], from: string, to: string) =>
+  periods.filter((p) => p.startDate <= to && (!p.endDate || p.endDate >= from)).map((p) => p.startDate);
+
+// One Jan 1 period per legacy year, each ending the day before the next begins
+export function periodsFromYearRates(years: LegacyYearRates[]): RatePeriod[] {
+  const sorted = [...years].sort((a, b) => a.year - b.year);
+  return sorted.map((r, idx) => {
+    const next = sorted[idx + 1];
+    return {
+      startDate: `${r.year}-01-01`,
+      endDate: next ? addDays(`${next.year}-01-01`, -1) : "",
+      breakfast: r.breakfast || 0,
+      snack: r.snack || 0,
+      lunch: r.lunch || 0,
+    };
+  });
+}
+
+// Periods must be contiguous: no overlaps, no gaps, only the last one open-ended
+export function validateRatePeriods(drafts: RatePeriodDraft[]): string | null {
+  const sorted = [...drafts].sort((a, b) => a.startDate.localeCompare(b.startDate));
+
+  for (const [idx, p] of sorted.entries()) {
+    if (!isValidDate(p.startDate)) return `Period ${idx + 1}: please enter a valid start date.`;
+    if (p.endDate && !isValidDate(p.endDate)) return `Period starting ${p.startDate}: end date must be blank or a valid date.`;
+    if (p.endDate && p.endDate < p.startDate) return `Period starting ${p.startDate}: end date cannot be before start date.`;
+
+    for (const v of [p.breakfast, p.snack, p.lunch]) {
+      const n = Number(v);
+      if (v.trim() === "" || !Number.isFinite(n) || n < 0) {
+        return `Period starting ${p.startDate}: please enter valid non-negative numbers for rates.`;
+      }
+    }
+
+    const next = sorted[idx + 1];
+    if (!next) continue;
+    if (!p.endDate) return `Period starting ${p.startDate} has no end date, but a later period exists.`;
+    if (next.startDate <= p.endDate) return `Periods starting ${p.startDate} and ${next.startDate} overlap.`;
+    if (next.startDate !== addDays(p.endDate, 1)) {
+      return `Gap between ${p.endDate} and ${next.startDate}. The next period must start the day after.`;
+    }
+  }
+  return null;
+}
+
+export const yearFromDate = (d: string) => Number(d.slice(0, 4));
+export const monthFromDate = (d: string) => d.slice(0, 7); // YYYY-MM
+export const round2 = (n: number) => Math.round(n * 100) / 100;
+
+// Meal counts and dollars for one record under the rate period in force on its
+// date. Snacks (AM + PM) share one rate. Incomplete records keep their counts
+// but earn nothing until the check-out is recorded.
+export type Reimbursement = {
+  breakfasts: number;
+  snacks: number;
+  lunches: number;
+  amount: number; // dollars, unrounded
+  incomplete: boolean;
+  rates: RatePeriod;
+};
+
+export function reimbursementFor(r: RecordRow, periods: RatePeriod[]): Reimbursement {
+  const rates = ratePeriodFor(periods, r.date);
+  const incomplete = isIncomplete(r);
+  const breakfasts = r.breakfast || 0;
+  const snacks = (r.amSnack || 0) + (r.pmSnack || 0);
+  const lunches = r.lunch || 0;
+
+  const amount = incomplete
+    ? 0
+    : breakfasts * (rates.breakfast || 0) + snacks * (rates.snack || 0) + lunches * (rates.lunch || 0);
+
+  return { breakfasts, snacks, lunches, amount, incomplete, rates };
+}
+
+// ---------- Rollups ----------
+
+// What one record adds to its month and year totals. Incomplete records
+// only bump incompleteExcluded, the same way the summaries always treated them.
+export type RollupCounts = {
+  breakfasts: number;
+  snacks: number;
+  lunches: number;
+  total: number; // dollars, unrounded
+  overriddenServed: number;
+  overriddenNotServed: number;
+  incompleteExcluded: number;
+  records: number;
+};
+
+export const EMPTY_ROLLUP: RollupCounts = {
+  breakfasts: 0,
+  snacks: 0,
+  lunches: 0,
+  total: 0,
+  overriddenServed: 0,
+  overriddenNotServed: 0,
+  incompleteExcluded: 0,
+  records: 0,
+};
+
+const ROLLUP_KEYS = Object.keys(EMPTY_ROLLUP) as (keyof RollupCounts)[];
+
+// Just the counts from a stored rollup doc (which also carries updatedAt)
+export const rollupFrom = (data: Partial<RollupCounts>): RollupCounts =>
+  Object.fromEntries(ROLLUP_KEYS.map((k) => [k, data[k] ?? 0])) as RollupCounts;
+
+export function rollupCounts(r: RecordRow, periods: RatePeriod[]): RollupCounts {
+  const { breakfasts, snacks, lunches, amount, incomplete } = reimbursementFor(r, periods);
+  if (incomplete) return { ...EMPTY_ROLLUP, incompleteExcluded: 1, records: 1 };
+  const overrides = overrideCounts(r);
+  return {
+    breakfasts,
+    snacks,
+    lunches,
+    total: amount,
+    overriddenServed: overrides.served,
+    overriddenNotServed: overrides.notServed,
+    incompleteExcluded: 0,
+    records: 1,
+  };
+}
+
+// Rollup doc ids a record counts toward: "YYYY-MM" and "YYYY"
+export const rollupKeys = (d: string) => [monthFromDate(d), String(yearFromDate(d))];
+
+// Net change per rollup doc for a set of record writes; `null` before means
+// created, `null` after means deleted. Unchanged docs are left out.
+export function rollupDeltas(
+  changes: [before: RecordRow | null | undefined, after: RecordRow | null][],
+  periods: RatePeriod[]
+): Map<string, RollupCounts> {
+  const out = new Map<string, RollupCounts>();
+  const add = (r: RecordRow, sign: number) => {
+    const c = rollupCounts(r, periods);
+    for (const key of rollupKeys(r.date)) {
+      const cur = { ...(out.get(key) ?? EMPTY_ROLLUP) };
+      for (const k of ROLLUP_KEYS) cur[k] += sign * c[k];
+      out.set(key, cur);
+    }
+  };
+  for (const [before, after] of changes) {
+    if (before) add(before, -1);
+    if (after) add(after, 1);
+  }
+  for (const [key, d] of out) {
+    if (ROLLUP_KEYS.every((k) => Math.abs(d[k]) < 1e-9)) out.delete(key);
+  }
+  return out;
+}
+
+// Every rollup from scratch (the repair path)
+export function buildRollups(records: RecordRow[], periods: RatePeriod[]): Map<string, RollupCounts> {
+  return rollupDeltas(records.map((r) => [null, r]), periods);
+}
+
+// Whole years priced differently once `before` is replaced by `after`, i.e.
+// the rollups to rebuild; null when no period changed
+export function rateChangeRange(before: RatePeriod[], after: RatePeriod[]): { from: string; to: string } | null {
+  const key = (p: RatePeriod) => [p.startDate, p.endDate, p.breakfast, p.snack, p.lunch].join("|");
+  const beforeKeys = new Set(before.map(key));
+  const afterKeys = new Set(after.map(key));
+  const changed = [...before.filter((p) => !afterKeys.has(key(p))), ...after.filter((p) => !beforeKeys.has(key(p)))];
+  if (changed.length === 0) return null;
+
+  const from = changed.map((p) => p.startDate).sort()[0];
+  const to = changed.map((p) => p.endDate || "9999-12-31").sort().pop()!;
+  return { from: `${from.slice(0, 4)}-01-01`, to: `${to.slice(0, 4)}-12-31` };
+}
+
+// Calendar date and wall-clock time of `at` in an IANA time zone
+export function zonedDateTime(timeZone: string, at: Date): { date: string; time: string } {
+  const parts = new Intl.DateTimeFormat("en-CA", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(at);
+  const get = (type: Intl.DateTimeFormatPartTypes) => parts.find((p) => p.type === type)?.value ?? "";
+  return {
+    date: `${get("year")}-${get("month")}-${get("day")}`,
+    time: `${get("hour")}:${get("minute")}`,
+  };
+}
+
+export function isValidTimeZone(timeZone: string) {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return !!timeZone;
+  } catch {
+    return false;
+  }
+}
+
+// Records written by the check-in/out buttons while the date came from UTC
+// but the time from the device clock: the last write happened on a
+// neighbouring provider-local day, at exactly the time stored as the latest
+// in/out. Returns the date the record belongs on, or null. Records stamped
+// with the provider time zone were written after the fix and are never moved.
+export function shiftedRecordDate(r: RecordRow, writtenAt: Date, timeZone: string): string | null {
+  if (r.source !== "auto" || r.timeZone) return null;
+  const written = zonedDateTime(timeZone, writtenAt);
+  if (written.date === r.date) return null;
+  if (written.date !== addDays(r.date, -1) && written.date !== addDays(r.date, 1)) return null;
+
+  const segs = segmentsOf(r);
+  const last = segs[segs.length - 1];
+  if (!last) return null;
+  const latest = last.out || last.in;
+  return Math.abs(toMin(latest)! - toMin(written.time)!) <= 1 ? written.date : null;
+}
+
+// ---------- Tuition billing ----------
+
+// What a child's attendance costs the family. Weekly plans bill each
+// Monday-starting week with any attendance, in the month its Monday falls in.
+export type TuitionPlan = {
+  kind: "weekly" | "daily" | "hourly";
+  rate: number; // dollars per week, attended day or hour
+  discountPct: number; // 0–100, taken off that child's tuition (e.g. sibling discount)
+};
+
+// A child's plan from `effectiveFrom` (YYYY-MM-DD) on; null = not billed.
+// "" covers everything before the first dated change.
+export type TuitionVersion = {
+  effectiveFrom: string;
+  plan: TuitionPlan | null;
+};
+
+// The usual closing time from `effectiveFrom` on, like TuitionVersion
+export type ClosingTimeVersion = {
+  effectiveFrom: string;
+  closingTime: string; // "HH:MM"
+};
+
+// Charged per minute picked up after the day's closing time plus the grace period
+export type LateFeePolicy = {
+  closingTime: string; // "HH:MM", for days no version covers
+  closingTimes?: ClosingTimeVersion[];
+  closures?: Map<string, Closure>; // early dismissals close earlier that day
+  graceMin: number;
+  feePerMin: number; // dollars
+};
+
+// daycares/{daycareId}/payments/{id}
+export type Payment = {
+  id: string;
+  familyKey: string; // see BillingGroup.key
+  date: string; // YYYY-MM-DD received
+  amount: number; // dollars
+  method: string; // "Cash", "Check #123", …
+  note: string;
+  recordedBy?: string; // uid
+  createdAt?: unknown;
+};
+
+// Who an invoice goes to: a family, or a child without one
+export type BillingGroup = {
+  key: string; // family id, or `kid:${kidId}`
+  name: string;
+  kids: { id: string; name: string; tuition?: TuitionPlan | null; tuitionHistory?: TuitionVersion[] }[];
+};
+
+export type InvoiceLine = {
+  kidId: string;
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  amount: number; // dollars; negative for discounts
+};
+
+export type Invoice = {
+  familyKey: string;
+  familyName: string;
+  month: string; // YYYY-MM
+  lines: InvoiceLine[];
+  charges: number;
+  payments: Payment[];
+  paid: number;
+  previousBalance: number;
+  balance: number; // previousBalance + charges - paid
+  incompleteExcluded: number; // days still missing a check-out, not billed yet
+};
+
+const PLAN_UNITS: Record<TuitionPlan["kind"], string> = {
+  weekly: "week(s)",
+  daily: "day(s)",
+  hourly: "hour(s)",
+};
+
+export const mondayOf = (d: string) => addDays(d, -((weekdayOf(d) + 6) % 7));
+
+export const nextMonth = (m: string) => addDays(`${m}-01`, 31).slice(0, 7);
+
+// The latest version starting on or before `date`
+function versionOn<T extends { effectiveFrom: string }>(versions: T[], date: string): T | null {
+  let best: T | null = null;
+  for (const v of versions) {
+    if (v.effectiveFrom <= date && (!best || v.effectiveFrom > best.effectiveFrom)) best = v;
+  }
+  return best;
+}
+
+// Plan in force on `date`; children priced before plans were versioned have only `tuition`
+export function tuitionPlanOn(kid: BillingGroup["kids"][number], date: string): TuitionPlan | null {
+  if (!kid.tuitionHistory?.length) return kid.tuition ?? null;
+  return versionOn(kid.tuitionHistory, date)?.plan ?? null;
+}
+
+// Closing time on `date`: the usual time then in force, or an early dismissal
+export function lateFeeClosingTime(late: LateFeePolicy, date: string) {
+  const usual = versionOn(late.closingTimes ?? [], date)?.closingTime ?? late.closingTime;
+  return late.closures ? closingTimeOn(late.closures, date, usual) : usual;
+}
+
+// Minutes on site across closed segments
+export const minutesPresent = (r: Attendance) =>
+  segmentsOf(r).reduce((sum, s) => (s.out ? sum + Math.max(0, toMin(s.out)! - toMin(s.in)!) : sum), 0);
+
+// Tuition, discount and late-pickup lines for one child in `month`, each
+// unit priced at the plan in force on its date (a week on its Monday).
+// `records` may span several months (weekly plans look across month ends).
+export function tuitionLines(
+  kid: BillingGroup["kids"][number],
+  records: RecordRow[],
+  month: string,
+  late: LateFeePolicy
+): { lines: InvoiceLine[]; incompleteExcluded: number } {
+  const attended = records.filter((r) => r.kidId === kid.id && segmentsOf(r).length > 0);
+  const inMonth = attended.filter((r) => monthFromDate(r.date) === month);
+  const complete = inMonth.filter((r) => !isIncomplete(r));
+  const lines: InvoiceLine[] = [];
+
+  // Units billed at each plan in force during the month, in date order
+  const billed: { plan: TuitionPlan; quantity: number }[] = [];
+  const bill = (plan: TuitionPlan | null, quantity: number) => {
+    if (!plan || plan.rate <= 0) return;
+    const same = billed.find(
+      (b) => b.plan.kind === plan.kind && b.plan.rate === plan.rate && b.plan.discountPct === plan.discountPct
+    );
+    if (same) same.quantity += quantity;
+    else billed.push({ plan, quantity });
+  };
+  const mondays = [...new Set(attended.map((r) => mondayOf(r.date)))].sort();
+  for (const monday of mondays.filter((m) => monthFromDate(m) === month)) {
+    const plan = tuitionPlanOn(kid, monday);
+    if (plan?.kind === "weekly") bill(plan, 1);
+  }
+  for (const r of complete) {
+    const plan = tuitionPlanOn(kid, r.date);
+    if (plan?.kind === "daily") bill(plan, 1);
+    if (plan?.kind === "hourly") bill(plan, minutesPresent(r) / 60);
+  }
+
+  for (const { plan, quantity: units } of billed) {
+    const quantity = round2(units);
+    if (quantity <= 0) continue;
+    const amount = round2(quantity * plan.rate);
+    lines.push({
+      kidId: kid.id,
+      description: `${kid.name}: tuition, ${quantity} ${PLAN_UNITS[plan.kind]}`,
+      quantity,
+      unitPrice: plan.rate,
+      amount,
+    });
+    if (plan.discountPct > 0) {
+      const discount = -round2((amount * plan.discountPct) / 100);
+      lines.push({
+        kidId: kid.id,
+        description: `${kid.name}: ${plan.discountPct}% discount`,
+        quantity: 1,
+        unitPrice: discount,
+        amount: discount,
+      });
+    }
+  }
+
+  if (late.feePerMin > 0) {
+    let minutes = 0;
+    let days = 0;
+    for (const r of complete) {
+      const closing = lateFeeClosingTime(late, r.date);
+      if (!isValidHHMM(closing)) continue;
+      const cutoff = toMin(closing)! + late.graceMin;
+      const lastOut = Math.max(...segmentsOf(r).map((s) => toMin(s.out) ?? 0));
+      if (lastOut > cutoff) {
+        minutes += lastOut - cutoff;
+        days++;
+      }
+    }
+    if (minutes > 0) {
+      lines.push({
+        kidId: kid.id,
+        description: `${kid.name}: late pickup, ${minutes} min over ${days} day(s)`,
+        quantity: minutes,
+        unitPrice: late.feePerMin,
+        amount: round2(minutes * late.feePerMin),
+      });
+    }
+  }
+
+  return { lines, incompleteExcluded: inMonth.length - complete.length };
+}
+
+// One invoice per group per month, from the group's first activity through
+// `throughMonth`, carrying each month's balance into the next.
+export function buildInvoices(
+  groups: BillingGroup[],
+  records: RecordRow[],
+  payments: Payment[],
+  late: LateFeePolicy,
+  throughMonth: string
+): Invoice[] {
+  const out: Invoice[] = [];
+
+  for (const g of groups) {
+    const kidIds = new Set(g.kids.map((k) => k.id));
+    const groupRecords = records.filter((r) => kidIds.has(r.kidId));
+    const groupPayments = payments.filter((p) => p.familyKey === g.key);
+
+    const firstMonth = [...groupRecords.map((r) => r.date), ...groupPayments.map((p) => p.date)]
+      .map(monthFromDate)
+      .sort()[0];
+    if (!firstMonth) continue;
+
+    let balance = 0;
+    for (let month = firstMonth; month <= throughMonth; month = nextMonth(month)) {
+      const lines: InvoiceLine[] = [];
+      let incompleteExcluded = 0;
+      for (const kid of g.kids) {
+        const t = tuitionLines(kid, groupRecords, month, late);
+        lines.push(...t.lines);
+        incompleteExcluded += t.incompleteExcluded;
+      }
+      const paidList = groupPayments.filter((p) => monthFromDate(p.date) === month);
+      const charges = round2(lines.reduce((sum, l) => sum + l.amount, 0));
+      const paid = round2(paidList.reduce((sum, p) => sum + p.amount, 0));
+      const previousBalance = balance;
+      balance = round2(previousBalance + charges - paid);
+
+      out.push({
+        familyKey: g.key,
+        familyName: g.name,
+        month,
+        lines,
+        charges,
+        payments: paidList,
+        paid,
+        previousBalance,
+        balance,
+        incompleteExcluded,
+      });
+    }
+  }
+  return out;
+}
+
+// ---------- Year-end statements ----------
+
+// What a family paid in one calendar year, for the dependent-care tax credit
+export type YearEndStatement = {
+  familyKey: string;
+  familyName: string;
+  year: number;
+  payments: Payment[]; // by date
+  totalPaid: number;
+  children: { id: string; name: string; dates: string[] }[]; // days attended that year
+};
+
+// One statement per group with a payment or attendance in `year`
+export function yearEndStatements(
+  groups: BillingGroup[],
+  records: RecordRow[],
+  payments: Payment[],
+  year: number
+): YearEndStatement[] {
+  const out: YearEndStatement[] = [];
+
+  for (const g of groups) {
+    const paidList = payments
+      .filter((p) => p.familyKey === g.key && yearFromDate(p.date) === year)
+      .sort((a, b) => a.date.localeCompare(b.date));
+    const children = g.kids.map((k) => ({
+      id: k.id,
+      name: k.name,
+      dates: [
+        ...new Set(
+          records
+            .filter((r) => r.kidId === k.id && yearFromDate(r.date) === year && segmentsOf(r).length > 0)
+            .map((r) => r.date)
+        ),
+      ].sort(),
+    }));
+    if (!paidList.length && !children.some((c) => c.dates.length)) continue;
+
+    out.push({
+      familyKey: g.key,
+      familyName: g.name,
+      year,
+      payments: paidList,
+      totalPaid: round2(paidList.reduce((sum, p) => sum + p.amount, 0)),
+      children,
+    });
+  }
+  return out;
+}
+
+// ---------- Capacity and ratios ----------
+
+// One row of the licensing ratio table. Rows are ordered youngest first; a
+// child belongs to the first row whose maxMonths is above their age.
+export type AgeGroup = {
+  label: string;
+  maxMonths: number | null; // exclusive; null = no upper bound (last row)
+  childrenPerStaff: number;
+};
+
+export const DEFAULT_AGE_GROUPS: AgeGroup[] = [
+  { label: "Infants", maxMonths: 18, childrenPerStaff: 4 },
+  { label: "Toddlers", maxMonths: 36, childrenPerStaff: 6 },
+  { label: "Preschool", maxMonths: 72, childrenPerStaff: 10 },
+  { label: "School age", maxMonths: null, childrenPerStaff: 15 },
+];
+
+export function ageInMonths(birthDate: string, on: string): number {
+  const [by, bm, bd] = birthDate.split("-").map(Number);
+  const [y, m, d] = on.split("-").map(Number);
+  return (y - by) * 12 + (m - bm) - (d < bd ? 1 : 0);
+}
+
+// Children without a birth date count in the youngest (strictest) group
+export function ageGroupIndex(groups: AgeGroup[], birthDate: string | undefined, on: string) {
+  if (!birthDate || !isValidDate(birthDate)) return 0;
+  const age = ageInMonths(birthDate, on);
+  const idx = groups.findIndex((g) => g.maxMonths == null || age < g.maxMonths);
+  return idx === -1 ? groups.length - 1 : idx;
+}
+
+export type Headcount = {
+  total: number;
+  byGroup: number[]; // same order as the ratio table
+  unknownAge: number; // counted in the youngest group
+  requiredStaff: number;
+};
+
+// Staff needed for a mixed group: each child takes 1/childrenPerStaff of a
+// staff member, rounded up once for the whole room
+export function headcount(present: { birthDate?: string }[], groups: AgeGroup[], on: string): Headcount {
+  const byGroup = groups.map(() => 0);
+  let unknownAge = 0;
+  for (const k of present) {
+    if (!k.birthDate) unknownAge++;
+    byGroup[ageGroupIndex(groups, k.birthDate, on)]++;
+  }
+  const load = byGroup.reduce((sum, n, i) => sum + n / (groups[i].childrenPerStaff || 1), 0);
+  return { total: present.length, byGroup, unknownAge, requiredStaff: Math.ceil(load - 1e-9) };
+}
+
+export function validateAgeGroups(groups: AgeGroup[]): string | null {
+  if (groups.length === 0) return "Add at least one age group.";
+  for (let i = 0; i < groups.length; i++) {
+    const g = groups[i];
+    if (!g.label.trim()) return `Age group ${i + 1} needs a name.`;
+    if (!Number.isFinite(g.childrenPerStaff) || g.childrenPerStaff <= 0) {
+      return `${g.label}: children per staff must be a positive number.`;
+    }
+    const last = i === groups.length - 1;
+    if (!last && (g.maxMonths == null || !Number.isInteger(g.maxMonths) || g.maxMonths <= 0)) {
+      return `${g.label}: enter the age (in months) the group ends at.`;
+    }
+    if (!last && i > 0 && g.maxMonths! <= groups[i - 1].maxMonths!) {
+      return "Age groups must be in order, youngest first.";
+    }
+  }
+  return null;
+}
+
+// Most children on site at once during one day's records, and when it first happened
+export function peakAttendance(records: RecordRow[]): { count: number; at: string } {
+  const events: { min: number; delta: number }[] = [];
+  for (const r of records) {
+    for (const s of segmentsOf(r)) {
+      events.push({ min: toMin(s.in)!, delta: 1 });
+      if (s.out) events.push({ min: toMin(s.out)!, delta: -1 });
+    }
+  }
+  // Departures before arrivals at the same minute
+  events.sort((a, b) => a.min - b.min || a.delta - b.delta);
+
+  let here = 0;
+  let peak = { count: 0, at: "" };
+  for (const e of events) {
+    here += e.delta;
+    if (here > peak.count) {
+      const hh = String(Math.floor(e.min / 60)).padStart(2, "0");
+      const mm = String(e.min % 60).padStart(2, "0");
+      peak = { count: here, at: `${hh}:${mm}` };
+    }
+  }
+  return peak;
+}
+
+// ---------- Staff time clock ----------
+
+// daycares/{daycareId}/staff/{id}: people who clock in (with or without an app login)
+export type StaffMember = {
+  id: string;
+  name: string;
+  active: boolean;
+};
+
+// daycares/{daycareId}/timeRecords/{date}_{staffId}; same segment shape as RecordRow
+export type TimeRecord = {
+  id: string; // `${date}_${staffId}`
+  date: string;
+  staffId: string;
+  staffName: string;
+  inTime?: string;
+  outTime?: string;
+  segments?: Segment[];
+  source?: "auto" | "manual";
+  editedBy?: string;
+  editReason?: string;
+  // concurrency, as on RecordRow
+  rev?: number;
+  baseRev?: number;
+  updatedAt?: unknown;
+};
+
+// "08:00-12:00, 12:30-17:00" (a trailing "-" or no end leaves the last one open)
+export function parseSegmentList(text: string): Segment[] | null {
+  const parts = text
+    .split(/[,;]/)
+    .map((p) => p.trim())
+    .filter(Boolean);
+  const segs: Segment[] = [];
+  for (const p of parts) {
+    const [a, b = ""] = p.split("-").map((t) => t.trim());
+    if (!isValidHHMM(a) || (b && !isValidHHMM(b))) return null;
+    segs.push({ in: a, out: b });
+  }
+  return segs;
+}
+
+export type StaffWeek = {
+  staffId: string;
+  staffName: string;
+  week: string; // Monday, YYYY-MM-DD
+  minutes: number; // closed segments only
+  overtimeMinutes: number;
+  openDays: number; // days still clocked in, not counted yet
+};
+
+// Hours per person per Monday-starting week; overtime past `overtimeAfterHours`
+export function staffWeeks(records: TimeRecord[], overtimeAfterHours: number): StaffWeek[] {
+  const map = new Map<string, StaffWeek>();
+  for (const r of records) {
+    const week = mondayOf(r.date);
+    const key = `${week}_${r.staffId}`;
+    const cur = map.get(key) ?? {
+      staffId: r.staffId,
+      staffName: r.staffName,
+      week,
+      minutes: 0,
+      overtimeMinutes: 0,
+      openDays: 0,
+    };
+    cur.minutes += minutesPresent(r);
+    if (openSegment(r)) cur.openDays += 1;
+    map.set(key, cur);
+  }
+  return [...map.values()]
+    .map((w) => ({ ...w, overtimeMinutes: Math.max(0, w.minutes - overtimeAfterHours * 60) }))
+    .sort((a, b) => a.week.localeCompare(b.week) || a.staffName.localeCompare(b.staffName));
+}
+
+// ---------- Closures and days of operation ----------
+
+export type ClosureKind = "closed" | "holiday" | "early-dismissal";
+
+export const CLOSURE_KIND_LABELS: Record<ClosureKind, string> = {
+  closed: "Closed",
+  holiday: "Holiday",
+  "early-dismissal": "Early dismissal",
+};
+
+// daycares/{daycareId}/settings/config/closures/{date}
+export type Closure = {
+  date: string; // YYYY-MM-DD
+  kind: ClosureKind;
+  label: string; // "Thanksgiving", "Staff training", …
+  closingTime: string; // early dismissal only, "" otherwise
+};
+
+export function validateClosure(c: Closure): string | null {
+  if (!isValidDate(c.date)) return "Please pick a valid date.";
+  if (!c.label.trim()) return "Please give the day a name (e.g. Thanksgiving).";
+  if (c.kind === "early-dismissal" && !isValidHHMM(c.closingTime)) return "Early dismissal needs a closing time.";
+  return null;
+}
+
+// Closed all day (early dismissal still counts as a day of operation)
+export function isClosedOn(closures: Map<string, Closure>, d: string) {
+  const c = closures.get(d);
+  return !!c && c.kind !== "early-dismissal";
+}
+
+export function closingTimeOn(closures: Map<string, Closure>, d: string, usual: string) {
+  const c = closures.get(d);
+  return c?.kind === "early-dismissal" && c.closingTime ? c.closingTime : usual;
+}
+
+// Open weekdays (0 = Sunday) in from..to, minus closures
+export function daysOfOperation(closures: Map<string, Closure>, openWeekdays: number[], from: string, to: string) {
+  let n = 0;
+  for (let d = from; d <= to; d = addDays(d, 1)) {
+    if (openWeekdays.includes(weekdayOf(d)) && !isClosedOn(closures, d)) n += 1;
+  }
+  return n;
+}
+
+export const lastDayOfMonth = (m: string) => addDays(`${nextMonth(m)}-01`, -1);
+
+// ---------- Expected schedules and absences ----------
+
+// A child's usual week, keyed by weekday like MealSchedule.weekdays
+// ("0" = Sunday … "6" = Saturday); days not listed aren't scheduled
+export type ExpectedSchedule = Record<string, { in: string; out: string }>;
+
+// A child's usual week from `effectiveFrom` on, like TuitionVersion
+export type ScheduleVersion = {
+  effectiveFrom: string;
+  schedule: ExpectedSchedule;
+};
+
+export const WEEKDAY_LABELS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+export type AbsenceReason = "sick" | "vacation" | "no-show";
+
+export const ABSENCE_REASON_LABELS: Record<AbsenceReason, string> = {
+  sick: "Sick",
+  vacation: "Vacation",
+  "no-show": "No-show",
+};
+
+// daycares/{daycareId}/absences/{date}_{kidId}; a check-in that day removes it
+export type Absence = {
+  id: string;
+  date: string;
+  kidId: string;
+  kidName: string;
+  reason: AbsenceReason;
+  by: string; // uid
+  byEmail: string;
+  at?: unknown;
+};
+
+// What the absence helpers need from a child
+export type ScheduledKid = {
+  id: string;
+  name: string;
+  enrollStart?: string;
+  enrollEnd?: string;
+  schedule?: ExpectedSchedule; // the latest week
+  scheduleHistory?: ScheduleVersion[]; // what each date is checked against, once the week has changed
+};
+
+// Week in force on `d`; children scheduled before weeks were dated have only `schedule`
+export function scheduleOn(k: ScheduledKid, d: string): ExpectedSchedule | undefined {
+  if (!k.scheduleHistory?.length) return k.schedule;
+  return versionOn(k.scheduleHistory, d)?.schedule;
+}
+
+export function validateSchedule(s: ExpectedSchedule): string | null {
+  for (const [day, t] of Object.entries(s)) {
+    const label = WEEKDAY_LABELS[Number(day)] ?? day;
+    if (!isValidHHMM(t.in) || !isValidHHMM(t.out)) return `${label}: please enter arrival and departure times (HH:MM).`;
+    if (toMin(t.out)! <= toMin(t.in)!) return `${label}: departure must be after arrival.`;
+  }
+  return null;
+}
+
+const enrolledOn = (k: ScheduledKid, d: string) =>
+  (!k.enrollStart || d >= k.enrollStart) && (!k.enrollEnd || d <= k.enrollEnd);
+
+// Expected hours on `d`, or undefined when the child isn't scheduled
+// (or isn't enrolled, or the provider is closed) that day
+export function expectedOn(k: ScheduledKid, d: string, closures: Map<string, Closure>) {
+  return enrolledOn(k, d) && !isClosedOn(closures, d) ? scheduleOn(k, d)?.[String(weekdayOf(d))] : undefined;
+}
+
+const attended = (r?: Attendance) => segmentsOf(r).length > 0;
+
+// Children scheduled on `date` with no check-in and no absence whose
+// expected arrival plus `graceMin` is at or before `now` (HH:MM)
+export function notArrived(
+  kids: ScheduledKid[],
+  records: Map<string, RecordRow>,
+  absences: Map<string, Absence>,
+  closures: Map<string, Closure>,
+  date: string,
+  now: string,
+  graceMin: number
+) {
+  return kids
+    .map((k) => ({ kid: k, expected: expectedOn(k, date, closures) }))
+    .filter(
+      (e): e is { kid: ScheduledKid; expected: { in: string; out: string } } =>
+        !!e.expected &&
+        !attended(records.get(`${date}_${e.kid.id}`)) &&
+        !absences.has(`${date}_${e.kid.id}`) &&
+        toMin(e.expected.in)! + graceMin <= toMin(now)!
+    )
+    .sort((a, b) => a.expected.in.localeCompare(b.expected.in) || a.kid.name.localeCompare(b.kid.name));
+}
+
+export type AbsenceStats = {
+  kidId: string;
+  kidName: string;
+  month: string; // YYYY-MM
+  scheduledDays: number;
+  attendedDays: number;
+  sick: number;
+  vacation: number;
+  noShow: number;
+  unmarked: number; // scheduled, not attended, no absence recorded
+};
+
+// Per child per month over from..to. Days after `through` (normally today)
+// aren't counted as scheduled yet. Each day counts against the week in
+// force that day, so a schedule change leaves past months alone.
+export function absenceStats(
+  kids: ScheduledKid[],
+  records: RecordRow[],
+  absences: Absence[],
+  closures: Map<string, Closure>,
+  from: string,
+  to: string,
+  through: string
+): AbsenceStats[] {
+  const present = new Set(records.filter(attended).map((r) => `${r.date}_${r.kidId}`));
+  const absent = new Map(absences.map((a) => [a.id, a]));
+  const map = new Map<string, AbsenceStats>();
+  const last = to < through ? to : through;
+
+  for (const k of kids) {
+    for (let d = from; d <= last; d = addDays(d, 1)) {
+      const id = `${d}_${k.id}`;
+      const scheduled = !!expectedOn(k, d, closures);
+      const came = present.has(id);
+      const a = came ? undefined : absent.get(id);
+      if (!scheduled && !came && !a) continue;
+
+      const key = `${monthFromDate(d)}_${k.id}`;
+      const cur = map.get(key) ?? {
+        kidId: k.id,
+        kidName: k.name,
+        month: monthFromDate(d),
+        scheduledDays: 0,
+        attendedDays: 0,
+        sick: 0,
+        vacation: 0,
+        noShow: 0,
+        unmarked: 0,
+      };
+      if (scheduled) cur.scheduledDays += 1;
+      if (came) cur.attendedDays += 1;
+      if (a?.reason === "sick") cur.sick += 1;
+      if (a?.reason === "vacation") cur.vacation += 1;
+      if (a?.reason === "no-show") cur.noShow += 1;
+      if (scheduled && !came && !a) cur.unmarked += 1;
+      map.set(key, cur);
+    }
+  }
+  return [...map.values()].sort((a, b) => a.month.localeCompare(b.month) || a.kidName.localeCompare(b.kidName));
+}
@@ -0,0 +1,453 @@
+// Security rules against the local Firestore emulator. Run with
+// `npm run test:rules`, which starts the emulator; plain `npm test` skips
+// this file when no emulator is running.
+import { readFileSync } from "node:fs";
+import { afterAll, beforeAll, beforeEach, describe, it } from "vitest";
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+  type RulesTestEnvironment,
+} from "@firebase/rules-unit-testing";
+import {
+  deleteDoc,
+  doc,
+  getDoc,
+  increment,
+  serverTimestamp,
+  setDoc,
+  updateDoc,
+  writeBatch,
+} from "firebase/firestore";
+
+const DAYCARE = "owner-uid";
+const PAST = "2020-01-06";
+const FUTURE = "2099-01-05";
+const LOCKED = "2099-02-02";
+
+let env: RulesTestEnvironment;
+
+const as = (uid: string, email = `${uid}@example.com`) =>
+  env.authenticatedContext(uid, { email, email_verified: true }).firestore();
+
+const owner = () => as("owner-uid");
+const staff = () => as("staff-uid");
+const bookkeeper = () => as("bookkeeper-uid");
+const outsider = () => as("outsider-uid");
+
+const dc = (...path: string[]) => ["daycares", DAYCARE, ...path].join("/");
+
+const record = (date: string, extra: Record<string, unknown> = {}) => ({
+  id: `${date}_kid1`,
+  date,
+  kidId: "kid1",
+  kidName: "Ada",
+  inTime: "08:00",
+  outTime: "12:00",
+  segments: [{ in: "08:00", out: "12:00" }],
+  breakfast: 1,
+  amSnack: 1,
+  lunch: 0,
+  pmSnack: 0,
+  ...extra,
+});
+
+describe.skipIf(!process.env.FIRESTORE_EMULATOR_HOST)("firestore.rules", () => {
+  beforeAll(async () => {
+    env = await initializeTestEnvironment({
+      projectId: "daycare-rules-test",
+      firestore: { rules: readFileSync("firestore.rules", "utf8") },
+    });
+  });
+
+  afterAll(async () => {
+    await env.cleanup();
+  });
+
+  beforeEach(async () => {
+    await env.clearFirestore();
+    await env.withSecurityRulesDisabled(async (ctx) => {
+      const db = ctx.firestore();
+      await setDoc(doc(db, dc()), { id: DAYCARE, name: "Test", ownerUid: "owner-uid" });
+      for (const [uid, role] of [
+        ["owner-uid", "owner"],
+        ["staff-uid", "staff"],
+        ["bookkeeper-uid", "bookkeeper"],
+      ]) {
+        await setDoc(doc(db, dc("members", uid)), { uid, email: `${uid}@example.com`, role });
+      }
+      await setDoc(doc(db, dc("kids", "kid1")), { id: "kid1", name: "Ada", active: true });
+      await setDoc(doc(db, dc("records", `${FUTURE}_kid1`)), record(FUTURE));
+      await setDoc(doc(db, dc("records", `${PAST}_kid1`)), record(PAST));
+      await setDoc(doc(db, dc("records", `${LOCKED}_kid1`)), record(LOCKED));
+      await setDoc(doc(db, dc("monthLocks", "2099-02")), { month: "2099-02", locked: true, logId: "l1" });
+    });
+  });
+
+  describe("roles", () => {
+    it("lets members read and keeps everyone else out", async () => {
+      await assertSucceeds(getDoc(doc(owner(), dc("kids", "kid1"))));
+      await assertSucceeds(getDoc(doc(staff(), dc("kids", "kid1"))));
+      await assertSucceeds(getDoc(doc(bookkeeper(), dc("kids", "kid1"))));
+      await assertFails(getDoc(doc(outsider(), dc("kids", "kid1"))));
+      await assertFails(getDoc(doc(env.unauthenticatedContext().firestore(), dc("kids", "kid1"))));
+    });
+
+    it("lets owners and staff write records, not bookkeepers or outsiders", async () => {
+      const id = `${FUTURE}_kid1`;
+      await assertSucceeds(setDoc(doc(owner(), dc("records", id)), record(FUTURE)));
+      await assertSucceeds(setDoc(doc(staff(), dc("records", id)), record(FUTURE)));
+      await assertFails(setDoc(doc(bookkeeper(), dc("records", id)), record(FUTURE)));
+      await assertFails(setDoc(doc(outsider(), dc("records", id)), record(FUTURE)));
+    });
+
+    it("keeps past records owner-only", async () => {
+      const id = `${PAST}_kid1`;
+      await assertFails(setDoc(doc(staff(), dc("records", id)), record(PAST, { lunch: 1 })));
+      await assertSucceeds(setDoc(doc(owner(), dc("records", id)), record(PAST, { lunch: 1 })));
+      await assertFails(deleteDoc(doc(staff(), dc("records", `${FUTURE}_kid1`))));
+    });
+
+    it("keeps settings and renames owner-only", async () => {
+      await assertSucceeds(setDoc(doc(owner(), dc("settings", "config")), { closingTime: "18:00" }));
+      await assertFails(setDoc(doc(staff(), dc("settings", "config")), { closingTime: "18:00" }));
+      await assertFails(updateDoc(doc(staff(), dc("kids", "kid1")), { name: "Renamed" }));
+      await assertSucceeds(updateDoc(doc(staff(), dc("kids", "kid1")), { notes: "Naps at 1" }));
+    });
+
+    it("lets owners change other members' roles but not their own", async () => {
+      await assertSucceeds(updateDoc(doc(owner(), dc("members", "staff-uid")), { role: "bookkeeper" }));
+      await assertFails(updateDoc(doc(owner(), dc("members", "owner-uid")), { role: "staff" }));
+      await assertFails(updateDoc(doc(staff(), dc("members", "bookkeeper-uid")), { role: "owner" }));
+    });
+  });
+
+  describe("validRecord", () => {
+    const write = (extra: Record<string, unknown>) =>
+      setDoc(doc(staff(), dc("records", `${FUTURE}_kid1`)), record(FUTURE, extra));
+
+    it("requires HH:MM times under 24 hours", async () => {
+      await assertSucceeds(write({ inTime: "07:30", outTime: "" }));
+      await assertFails(write({ inTime: "7:30" }));
+      await assertFails(write({ inTime: "24:00" }));
+      await assertFails(write({ outTime: "noon" }));
+    });
+
+    it("requires the id to match date and child", async () => {
+      await assertFails(setDoc(doc(staff(), dc("records", `${FUTURE}_kid2`)), record(FUTURE)));
+    });
+
+    it("checks segment order, overlap and the open last segment", async () => {
+      await assertSucceeds(
+        write({
+          segments: [
+            { in: "08:00", out: "10:00" },
+            { in: "13:00", out: "" },
+          ],
+        })
+      );
+      await assertFails(write({ segments: [{ in: "10:00", out: "09:00" }] }));
+      await assertFails(
+        write({
+          segments: [
+            { in: "08:00", out: "11:00" },
+            { in: "10:00", out: "12:00" },
+          ],
+        })
+      );
+      await assertFails(
+        write({
+          segments: [
+            { in: "08:00", out: "" },
+            { in: "10:00", out: "12:00" },
+          ],
+        })
+      );
+      await assertFails(write({ segments: [{ in: "08:00", out: "09:00", note: "x" }] }));
+    });
+
+    it("caps a record at 8 segments", async () => {
+      const hour = (i: number) => String(8 + i).padStart(2, "0");
+      const segs = (n: number) => Array.from({ length: n }, (_, i) => ({ in: `${hour(i)}:00`, out: `${hour(i)}:30` }));
+      await assertSucceeds(write({ segments: segs(8) }));
+      await assertFails(write({ segments: segs(9) }));
+    });
+
+    it("only accepts meal counts of 0 or 1", async () => {
+      await assertFails(write({ lunch: 2 }));
+    });
+  });
+
+  describe("rate periods", () => {
+    const period = (extra: Record<string, unknown> = {}) => ({
+      startDate: "2025-07-01",
+      endDate: "",
+      breakfast: 2.5,
+      snack: 1.1,
+      lunch: 4.2,
+      ...extra,
+    });
+    const ref = () => doc(owner(), dc("settings", "config", "ratePeriods", "2025-07-01"));
+
+    it("accepts non-negative rates", async () => {
+      await assertSucceeds(setDoc(ref(), period()));
+      await assertSucceeds(setDoc(ref(), period({ snack: 0 })));
+    });
+
+    it("rejects negative or non-numeric rates and backwards periods", async () => {
+      await assertFails(setDoc(ref(), period({ lunch: -1 })));
+      await assertFails(setDoc(ref(), period({ breakfast: "2.50" })));
+      await assertFails(setDoc(ref(), period({ endDate: "2025-06-30" })));
+    });
+
+    it("is owner-only", async () => {
+      await assertFails(setDoc(doc(staff(), dc("settings", "config", "ratePeriods", "2025-07-01")), period()));
+    });
+  });
+
+  describe("month locks", () => {
+    it("freezes records in a locked month, even for owners", async () => {
+      const id = `${LOCKED}_kid1`;
+      await assertFails(setDoc(doc(owner(), dc("records", id)), record(LOCKED, { lunch: 1 })));
+      await assertFails(deleteDoc(doc(owner(), dc("records", id))));
+      await assertFails(setDoc(doc(staff(), dc("records", "2099-02-03_kid1")), record("2099-02-03")));
+    });
+
+    it("needs a matching log entry, and a reason to reopen", async () => {
+      const db = owner();
+      const lock = (logId: string, locked: boolean) =>
+        setDoc(doc(db, dc("monthLocks", "2099-02")), { month: "2099-02", locked, logId });
+      const log = (logId: string) => doc(db, dc("monthLocks", "2099-02", "log", logId));
+
+      await assertFails(lock("missing", false));
+
+      const noReason = writeBatch(db);
+      noReason.set(log("l2"), { month: "2099-02", by: "owner-uid", action: "unlock", reason: "" });
+      noReason.set(doc(db, dc("monthLocks", "2099-02")), { month: "2099-02", locked: false, logId: "l2" });
+      await assertFails(noReason.commit());
+
+      const reopen = writeBatch(db);
+      reopen.set(log("l3"), {
+        month: "2099-02",
+        by: "owner-uid",
+        action: "unlock",
+        reason: "Late sign-in sheet",
+      });
+      reopen.set(doc(db, dc("monthLocks", "2099-02")), { month: "2099-02", locked: false, logId: "l3" });
+      await assertSucceeds(reopen.commit());
+    });
+
+    it("is owner-only", async () => {
+      await assertFails(
+        setDoc(doc(staff(), dc("monthLocks", "2099-03")), { month: "2099-03", locked: true, logId: "x" })
+      );
+    });
+  });
+
+  describe("rollups", () => {
+    const id = `${FUTURE}_kid1`;
+    const step = (total: number, extra: Record<string, unknown> = {}) => ({
+      breakfasts: increment(1),
+      snacks: increment(1),
+      lunches: increment(0),
+      total: increment(total),
+      overriddenServed: increment(0),
+      overriddenNotServed: increment(0),
+      incompleteExcluded: increment(0),
+      records: increment(0),
+      lastRecord: id,
+      rateStart: "2099-01-01",
+      updatedAt: serverTimestamp(),
+      ...extra,
+    });
+    // A staff record write with its rollup steps, as upsertRecord sends it
+    const edit = (total: number, extra: Record<string, unknown> = {}) => {
+      const db = staff();
+      const batch = writeBatch(db);
+      batch.set(doc(db, dc("records", id)), record(FUTURE, { updatedAt: serverTimestamp() }));
+      batch.set(doc(db, dc("rollups", "2099-01")), step(total, extra), { merge: true });
+      return batch.commit();
+    };
+
+    beforeEach(async () => {
+      await env.withSecurityRulesDisabled((ctx) =>
+        setDoc(doc(ctx.firestore(), dc("settings", "config", "ratePeriods", "2099-01-01")), {
+          startDate: "2099-01-01",
+          endDate: "",
+          breakfast: 2,
+          snack: 1,
+          lunch: 3,
+        })
+      );
+    });
+
+    it("lets staff step a rollup by what the record they write can be worth", async () => {
+      await assertSucceeds(edit(3));
+      await assertFails(edit(7.5));
+      await assertFails(edit(3, { records: increment(2) }));
+      await assertFails(edit(3, { rateStart: "" }));
+    });
+
+    it("needs the record written in the same batch", async () => {
+      await assertFails(setDoc(doc(staff(), dc("rollups", "2099-01")), step(3), { merge: true }));
+      await assertFails(edit(3, { lastRecord: `${PAST}_kid1` }));
+    });
+
+    it("lets only owners set totals outright, and not in locked months", async () => {
+      const totals = { total: 500, records: 40 };
+      await assertFails(setDoc(doc(staff(), dc("rollups", "2099-01")), totals));
+      await assertSucceeds(setDoc(doc(owner(), dc("rollups", "2099-01")), totals));
+      await assertSucceeds(setDoc(doc(owner(), dc("rollups", "2099")), totals));
+      await assertFails(setDoc(doc(owner(), dc("rollups", "2099-02")), totals));
+      await assertFails(deleteDoc(doc(owner(), dc("rollups", "2099-02"))));
+    });
+  });
+
+  describe("append-only history", () => {
+    const entry = (by: string) => ({ recordId: `${FUTURE}_kid1`, action: "edit", by, clientAt: 1 });
+    const ref = (db: ReturnType<typeof owner>) => doc(db, dc("records", `${FUTURE}_kid1`, "history", "h1"));
+
+    it("lets staff add their own entries", async () => {
+      await assertSucceeds(setDoc(ref(staff()), entry("staff-uid")));
+      const forged = doc(staff(), dc("records", `${FUTURE}_kid1`, "history", "h2"));
+      await assertFails(setDoc(forged, entry("owner-uid")));
+    });
+
+    it("never lets an entry change", async () => {
+      await env.withSecurityRulesDisabled((ctx) => setDoc(ref(ctx.firestore()), entry("staff-uid")));
+      await assertFails(updateDoc(ref(staff()), { action: "revert" }));
+      await assertFails(updateDoc(ref(owner()), { action: "revert" }));
+      await assertFails(deleteDoc(ref(staff())));
+    });
+
+    it("keeps the month-lock log append-only", async () => {
+      await env.withSecurityRulesDisabled((ctx) =>
+        setDoc(doc(ctx.firestore(), dc("monthLocks", "2099-02", "log", "l1")), {
+          month: "2099-02",
+          by: "owner-uid",
+          action: "lock",
+          reason: "",
+        })
+      );
+      const logRef = doc(owner(), dc("monthLocks", "2099-02", "log", "l1"));
+      await assertFails(updateDoc(logRef, { reason: "edited" }));
+      await assertFails(deleteDoc(logRef));
+    });
+  });
+
+  describe("stale writes", () => {
+    const ref = (db: ReturnType<typeof owner>) => doc(db, dc("records", `${FUTURE}_kid1`));
+
+    beforeEach(async () => {
+      await env.withSecurityRulesDisabled((ctx) => setDoc(ref(ctx.firestore()), record(FUTURE, { rev: 2 })));
+    });
+
+    it("accepts a write built on the stored rev and rejects one built on an older rev", async () => {
+      await assertFails(setDoc(ref(staff()), record(FUTURE, { lunch: 1, baseRev: 1, rev: increment(1) })));
+      await assertSucceeds(setDoc(ref(staff()), record(FUTURE, { lunch: 1, baseRev: 2, rev: increment(1) })));
+      await assertFails(setDoc(ref(staff()), record(FUTURE, { lunch: 0, baseRev: 2, rev: increment(1) })));
+    });
+
+    it("starts a new record at rev 1", async () => {
+      const fresh = doc(staff(), dc("records", "2099-01-06_kid1"));
+      await assertFails(setDoc(fresh, record("2099-01-06", { baseRev: 0, rev: 5 })));
+      await assertSucceeds(setDoc(fresh, record("2099-01-06", { baseRev: 0, rev: increment(1) })));
+    });
+
+    it("does the same for time records", async () => {
+      const shift = (extra: Record<string, unknown>) => ({
+        id: `${FUTURE}_s1`,
+        date: FUTURE,
+        staffId: "s1",
+        staffName: "Sam",
+        segments: [{ in: "08:00", out: "" }],
+        ...extra,
+      });
+      const timeRef = (db: ReturnType<typeof owner>) => doc(db, dc("timeRecords", `${FUTURE}_s1`));
+      await env.withSecurityRulesDisabled((ctx) => setDoc(timeRef(ctx.firestore()), shift({ rev: 3 })));
+      await assertFails(setDoc(timeRef(staff()), shift({ baseRev: 2, rev: increment(1) })));
+      await assertSucceeds(setDoc(timeRef(staff()), shift({ baseRev: 3, rev: increment(1) })));
+    });
+
+    it("lets staff keep their own rejected writes, never change them, and clear them", async () => {
+      const copy = (by: string) => ({ recordId: `${FUTURE}_kid1`, kidId: "kid1", date: FUTURE, by, clientAt: 1 });
+      const copyRef = (db: ReturnType<typeof owner>) => doc(db, dc("conflicts", "c1"));
+      await assertFails(setDoc(copyRef(staff()), copy("owner-uid")));
+      await assertFails(setDoc(copyRef(bookkeeper()), copy("bookkeeper-uid")));
+      await assertFails(setDoc(copyRef(staff()), { ...copy("staff-uid"), date: "2099-01-06" }));
+      await assertSucceeds(setDoc(copyRef(staff()), copy("staff-uid")));
+      await assertSucceeds(getDoc(copyRef(bookkeeper())));
+      await assertFails(updateDoc(copyRef(owner()), { clientAt: 2 }));
+      await assertSucceeds(deleteDoc(copyRef(staff())));
+    });
+  });
+
+  describe("kiosk PINs", () => {
+    const pins = { kidId: "kid1", entries: [{ guardian: "Grace", pinKey: "ab12" }], pinKeys: ["ab12"] };
+    const ref = (db: ReturnType<typeof owner>) => doc(db, dc("kioskPins", "kid1"));
+
+    it("keeps PIN hashes away from bookkeepers", async () => {
+      await assertSucceeds(setDoc(ref(staff()), pins));
+      await assertSucceeds(getDoc(ref(staff())));
+      await assertSucceeds(getDoc(ref(owner())));
+      await assertFails(getDoc(ref(bookkeeper())));
+      await assertFails(setDoc(ref(bookkeeper()), pins));
+    });
+
+    it("files PINs under their own child", async () => {
+      await assertFails(setDoc(ref(staff()), { ...pins, kidId: "kid2" }));
+    });
+  });
+
+  describe("invites", () => {
+    const invitee = () => as("new-uid", "new@example.com");
+    const member = (role: string) => ({ uid: "new-uid", email: "new@example.com", role });
+
+    beforeEach(async () => {
+      await env.withSecurityRulesDisabled((ctx) =>
+        setDoc(doc(ctx.firestore(), "invites", "new@example.com"), {
+          email: "new@example.com",
+          daycareId: DAYCARE,
+          role: "staff",
+          invitedBy: "owner-uid",
+        })
+      );
+    });
+
+    it("lets only owners invite, and never as owner", async () => {
+      const invite = (email: string, role: string, invitedBy = "owner-uid") => ({
+        email,
+        daycareId: DAYCARE,
+        role,
+        invitedBy,
+      });
+      await assertSucceeds(setDoc(doc(owner(), "invites", "x@example.com"), invite("x@example.com", "bookkeeper")));
+      await assertFails(setDoc(doc(owner(), "invites", "y@example.com"), invite("y@example.com", "owner")));
+      await assertFails(
+        setDoc(doc(staff(), "invites", "z@example.com"), invite("z@example.com", "staff", "staff-uid"))
+      );
+    });
+
+    it("lets the invitee read and claim their invite with the role given", async () => {
+      const db = invitee();
+      await assertSucceeds(getDoc(doc(db, "invites", "new@example.com")));
+      await assertFails(setDoc(doc(db, dc("members", "new-uid")), member("owner")));
+      const claim = writeBatch(db);
+      claim.set(doc(db, dc("members", "new-uid")), member("staff"));
+      claim.set(doc(db, "users", "new-uid"), { daycareId: DAYCARE });
+      claim.delete(doc(db, "invites", "new@example.com"));
+      await assertSucceeds(claim.commit());
+    });
+
+    it("refuses someone else's invite and unverified emails", async () => {
+      await assertFails(getDoc(doc(outsider(), "invites", "new@example.com")));
+      await assertFails(
+        setDoc(doc(outsider(), dc("members", "outsider-uid")), { uid: "outsider-uid", role: "staff" })
+      );
+      const unverified = env
+        .authenticatedContext("new-uid", { email: "new@example.com", email_verified: false })
+        .firestore();
+      await assertFails(setDoc(doc(unverified, dc("members", "new-uid")), member("staff")));
+    });
+  });
+});